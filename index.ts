@@ -1,2 +1,88 @@
-import queryCost from "./src/query-cost"
+import queryCost from "./src/apollo-plugin"
+export {
+  costDirectiveTypeDefs,
+  explainCost,
+  InvalidDocumentError,
+  QUERY_COST_TOO_HIGH,
+  QueryCostTooHighError,
+} from "./src/query-cost";
+export type {
+  AbstractTypeStrategy,
+  AliasCostConfig,
+  ArgumentMultiplier,
+  CostExplanation,
+  CostOptions,
+  FieldCostNode,
+  FieldPathCost,
+  InlineFragmentCostNode,
+  ListSizeConfig,
+  OperationCostConfig,
+  OperationCostNode,
+  QueryShape,
+  SelectionCostNode,
+  SlicingArgumentsConfig,
+  SubscriptionCostConfig,
+  TypeCostConfig,
+} from "./src/query-cost";
+export { QueryCostCalculator } from "./src/query-cost-calculator";
+export type {
+  CostResult,
+  QueryCostCalculatorOptions,
+} from "./src/query-cost-calculator";
+export { queryCostApollo4 } from "./src/apollo-server-4-plugin";
+export { QueryCostEnforcer } from "./src/query-cost-enforcer";
+export type {
+  CostAllowlist,
+  CostDisagreement,
+  CostOutcome,
+  CostReport,
+  CostRequest,
+  CostThreshold,
+  CostWarning,
+  QueryCostPluginOptions,
+  ShadowCostOptions,
+} from "./src/query-cost-enforcer";
+export { useQueryCost } from "./src/envelop-plugin";
+export type { EnvelopQueryCostOptions } from "./src/envelop-plugin";
+export {
+  consumeFromBucket,
+  COST_BUDGET_EXCEEDED,
+  CostBudgetExceededError,
+  InMemoryCostBudgetStore,
+} from "./src/cost-budget";
+export type {
+  CostBucket,
+  CostBudget,
+  CostBudgetOptions,
+  CostBudgetOutcome,
+  CostBudgetStore,
+} from "./src/cost-budget";
+export {
+  exceededQueryLimit,
+  QUERY_LIMIT_EXCEEDED,
+  QueryLimitExceededError,
+} from "./src/query-limits";
+export type { QueryLimits } from "./src/query-limits";
+export { createQueryCostRule } from "./src/query-cost-rule";
+export type { QueryCostRuleOptions } from "./src/query-cost-rule";
+export {
+  analyzeOperations,
+  loadOperations,
+  loadSchema,
+  passesThreshold,
+} from "./src/analysis";
+export type {
+  AnalysisOptions,
+  AnalysisResult,
+  OperationCost,
+  OperationError,
+  OperationSource,
+} from "./src/analysis";
+export { jsonReport, junitReport, markdownReport } from "./src/reports";
+export { diffCosts, passesDiff } from "./src/diff";
+export type {
+  CostDiff,
+  FieldCostDelta,
+  OperationCostDiff,
+} from "./src/diff";
 export default queryCost;
\ No newline at end of file
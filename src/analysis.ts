@@ -0,0 +1,204 @@
+import { promises as fs } from "fs";
+
+import fg from "fast-glob";
+import { flatMap } from "lodash";
+
+import type {
+  ASTNode,
+  DefinitionNode,
+  DocumentNode,
+  FragmentDefinitionNode,
+  GraphQLSchema,
+  IntrospectionQuery,
+  OperationDefinitionNode,
+} from "graphql";
+
+import {
+  buildClientSchema,
+  buildSchema,
+  Kind,
+  parse,
+  print,
+  validate,
+  visit,
+} from "graphql";
+
+import type { CostExplanation, CostOptions } from "./query-cost";
+import { costDirectiveTypeDefs, explainCost } from "./query-cost";
+import type { Maybe, VariableValues } from "./util";
+import { isSome } from "./util";
+
+// an operation of a client corpus, along with every fragment of the corpus it may spread.
+export type OperationSource = {
+  file: string;
+  operationName: Maybe<string>;
+  document: DocumentNode;
+};
+
+export type OperationCost = {
+  file: string;
+  operationName: Maybe<string>;
+  cost: number;
+  breakdown: CostExplanation;
+  overThreshold: boolean;
+};
+
+// an operation that couldn't be costed, e.g. because it isn't valid against the schema.
+export type OperationError = {
+  file: string;
+  operationName: Maybe<string>;
+  errors: readonly string[];
+};
+
+export type AnalysisResult = {
+  threshold: number;
+  costs: OperationCost[];
+  errors: OperationError[];
+};
+
+export type AnalysisOptions = CostOptions & {
+  costThreshold: number;
+  // shared by all operations, which ignore the variables they don't declare.
+  variables?: Maybe<VariableValues>;
+};
+
+// builds a schema from SDL, or from the result of an introspection query if the file is JSON.
+// SDL that doesn't define the cost directives gets the ones it's missing, so that it can use them.
+// introspection doesn't include applied directives, so @cost and @listSize only work from SDL.
+export async function loadSchema(path: string): Promise<GraphQLSchema> {
+  const source = await fs.readFile(path, "utf8");
+  if (path.endsWith(".json")) {
+    const json = JSON.parse(source);
+    return buildClientSchema((json.data ?? json) as IntrospectionQuery);
+  }
+  const definedDirectives = new Set(
+    parse(source).definitions.map((definition) =>
+      definition.kind === Kind.DIRECTIVE_DEFINITION
+        ? definition.name.value
+        : undefined
+    )
+  );
+  const missingDirectives = parse(costDirectiveTypeDefs).definitions.filter(
+    (definition) =>
+      definition.kind === Kind.DIRECTIVE_DEFINITION &&
+      !definedDirectives.has(definition.name.value)
+  );
+  return buildSchema(
+    [...missingDirectives.map((definition) => print(definition)), source].join(
+      "\n"
+    )
+  );
+}
+
+// the fragments an operation spreads, directly or through other fragments. Unknown fragments are
+// left for validation to report.
+function usedFragments(
+  operation: OperationDefinitionNode,
+  fragments: ReadonlyMap<string, FragmentDefinitionNode>
+): FragmentDefinitionNode[] {
+  const used = new Map<string, FragmentDefinitionNode>();
+  const collect = (node: ASTNode) =>
+    visit(node, {
+      FragmentSpread(spread) {
+        const name = spread.name.value;
+        const fragment = fragments.get(name);
+        if (isSome(fragment) && !used.has(name)) {
+          used.set(name, fragment);
+          collect(fragment);
+        }
+      },
+    });
+  collect(operation);
+  return [...used.values()];
+}
+
+// reads the operations of every file matching the patterns. Fragments can be spread across files,
+// as clients usually colocate them with their components.
+export async function loadOperations(
+  patterns: readonly string[]
+): Promise<OperationSource[]> {
+  const files = (await fg([...patterns], { absolute: false })).sort();
+  const definitions = await Promise.all(
+    files.map(async (file) => ({
+      file,
+      definitions: parse(await fs.readFile(file, "utf8")).definitions,
+    }))
+  );
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  definitions.forEach(({ definitions }) =>
+    definitions.forEach((d) => {
+      if (d.kind === Kind.FRAGMENT_DEFINITION) {
+        fragments.set(d.name.value, d);
+      }
+    })
+  );
+  return flatMap(definitions, ({ file, definitions }) =>
+    definitions
+      .filter(
+        (d: DefinitionNode): d is OperationDefinitionNode =>
+          d.kind === Kind.OPERATION_DEFINITION
+      )
+      .map((operation) => ({
+        file,
+        operationName: operation.name?.value,
+        document: {
+          kind: Kind.DOCUMENT,
+          definitions: [operation, ...usedFragments(operation, fragments)],
+        },
+      }))
+  );
+}
+
+// costs operations the same way the server does, after validating them against the schema.
+export function analyzeOperations(
+  schema: GraphQLSchema,
+  operations: readonly OperationSource[],
+  { costThreshold, variables, ...costOptions }: AnalysisOptions
+): AnalysisResult {
+  const result: AnalysisResult = {
+    threshold: costThreshold,
+    costs: [],
+    errors: [],
+  };
+  operations.forEach(({ file, operationName, document }) => {
+    const validationErrors = validate(schema, document);
+    if (validationErrors.length > 0) {
+      result.errors.push({
+        file,
+        operationName,
+        errors: validationErrors.map((e) => e.message),
+      });
+      return;
+    }
+    try {
+      const breakdown = explainCost(
+        schema,
+        document,
+        variables ?? {},
+        costOptions,
+        operationName
+      );
+      result.costs.push({
+        file,
+        operationName,
+        cost: breakdown.cost,
+        breakdown,
+        overThreshold: breakdown.cost > costThreshold,
+      });
+    } catch (e) {
+      result.errors.push({
+        file,
+        operationName,
+        errors: [(e as Error).message],
+      });
+    }
+  });
+  return result;
+}
+
+export function passesThreshold(result: AnalysisResult): boolean {
+  return (
+    result.errors.length === 0 &&
+    result.costs.every(({ overThreshold }) => !overThreshold)
+  );
+}
@@ -0,0 +1,57 @@
+import type {
+  ApolloServerPlugin,
+  BaseContext,
+} from "apollo-server-plugin-base";
+
+import type { GraphQLSchema } from "graphql";
+
+import type { QueryCostPluginOptions } from "./query-cost-enforcer";
+import {
+  QueryCostEnforcer,
+  responseExtensions,
+} from "./query-cost-enforcer";
+import type { Maybe } from "./util";
+import { isSome } from "./util";
+
+// the plugin for Apollo Server 3.
+export default function queryCost<TContext extends BaseContext = BaseContext>(
+  schema: GraphQLSchema,
+  options: QueryCostPluginOptions<TContext>
+): ApolloServerPlugin<TContext> {
+  const enforcer = new QueryCostEnforcer<TContext>(schema, options);
+  return {
+    async requestDidStart() {
+      let extensions: Maybe<Record<string, unknown>> = undefined;
+      return {
+        // errors thrown once the operation is resolved are sent to clients as GraphQL errors,
+        // unlike errors thrown once execution started.
+        async didResolveOperation({
+          request,
+          document,
+          queryHash,
+          context,
+        }) {
+          const outcome = await enforcer.enforce({
+            document,
+            variables: request.variables,
+            operationName: request.operationName,
+            queryHash,
+            context,
+          });
+          extensions = responseExtensions(outcome);
+          if (isSome(outcome.error)) {
+            throw outcome.error;
+          }
+        },
+        async willSendResponse({ response }) {
+          if (isSome(extensions)) {
+            response.extensions = {
+              ...response.extensions,
+              ...extensions,
+            };
+          }
+        },
+      };
+    },
+  };
+}
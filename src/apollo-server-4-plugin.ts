@@ -0,0 +1,76 @@
+import type { ApolloServerPlugin, BaseContext } from "@apollo/server";
+
+import type { GraphQLSchema } from "graphql";
+import { GraphQLError } from "graphql";
+
+import { COST_BUDGET_EXCEEDED } from "./cost-budget";
+import { QUERY_COST_TOO_HIGH } from "./query-cost";
+import type { QueryCostPluginOptions } from "./query-cost-enforcer";
+import {
+  QueryCostEnforcer,
+  responseExtensions,
+} from "./query-cost-enforcer";
+import { QUERY_LIMIT_EXCEEDED } from "./query-limits";
+import type { Maybe } from "./util";
+import { isSome } from "./util";
+
+// Apollo Server 4 responds with 500 to errors thrown by plugins, unless they set an HTTP status.
+const httpStatuses = new Map([
+  [QUERY_COST_TOO_HIGH, 400],
+  [QUERY_LIMIT_EXCEEDED, 400],
+  [COST_BUDGET_EXCEEDED, 429],
+]);
+
+function withHttpStatus(error: GraphQLError): GraphQLError {
+  const status = httpStatuses.get(String(error.extensions.code));
+  if (!isSome(status)) {
+    return error;
+  }
+  return new GraphQLError(error.message, {
+    originalError: error,
+    extensions: { ...error.extensions, http: { status } },
+  });
+}
+
+// the plugin for Apollo Server 4. Takes the same options as the Apollo Server 3 plugin.
+export function queryCostApollo4<TContext extends BaseContext = BaseContext>(
+  schema: GraphQLSchema,
+  options: QueryCostPluginOptions<TContext>
+): ApolloServerPlugin<TContext> {
+  const enforcer = new QueryCostEnforcer<TContext>(schema, options);
+  return {
+    async requestDidStart() {
+      let extensions: Maybe<Record<string, unknown>> = undefined;
+      return {
+        async didResolveOperation({
+          request,
+          document,
+          queryHash,
+          contextValue,
+        }) {
+          const outcome = await enforcer.enforce({
+            document,
+            variables: request.variables,
+            operationName: request.operationName,
+            queryHash,
+            context: contextValue,
+          });
+          extensions = responseExtensions(outcome);
+          if (isSome(outcome.error)) {
+            throw withHttpStatus(outcome.error);
+          }
+        },
+        async willSendResponse({ response }) {
+          if (!isSome(extensions)) {
+            return;
+          }
+          const result =
+            response.body.kind === "single"
+              ? response.body.singleResult
+              : response.body.initialResult;
+          result.extensions = { ...result.extensions, ...extensions };
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,217 @@
+#!/usr/bin/env node
+import { promises as fs } from "fs";
+import path from "path";
+
+import { Command, CommanderError } from "commander";
+
+import type {
+  AnalysisOptions,
+  AnalysisResult,
+  OperationError,
+} from "./analysis";
+import {
+  analyzeOperations,
+  loadOperations,
+  loadSchema,
+  passesThreshold,
+} from "./analysis";
+import type { CostDiff } from "./diff";
+import { diffCosts, passesDiff } from "./diff";
+import {
+  jsonReport,
+  junitReport,
+  markdownReport,
+  operationLabel,
+} from "./reports";
+import { isSome } from "./util";
+
+export type CliOutput = {
+  log: (message: string) => void;
+  error: (message: string) => void;
+};
+
+type CliOptions = {
+  schema: string;
+  config?: string;
+  variables?: string;
+  threshold?: string;
+  json?: string;
+  markdown?: string;
+  junit?: string;
+  baseSchema?: string;
+  baseOperations: string[];
+};
+
+// the options passed to queryCost, from the default export of a JS module, or from JSON.
+// options that are maps, e.g. argumentMultiplierConfig, need a JS module.
+async function loadConfig(
+  configPath: string
+): Promise<Partial<AnalysisOptions>> {
+  const config = await import(path.resolve(configPath));
+  return config.default ?? config;
+}
+
+function printResult(result: AnalysisResult, output: CliOutput) {
+  result.costs.forEach(({ file, operationName, cost, overThreshold }) => {
+    const operation = `${file}: ${operationLabel(operationName)}`;
+    if (overThreshold) {
+      output.error(
+        `${operation} costs ${cost}, over the threshold of ${result.threshold}`
+      );
+    } else {
+      output.log(`${operation} costs ${cost}`);
+    }
+  });
+  printErrors(result.errors, output);
+}
+
+function printErrors(errors: readonly OperationError[], output: CliOutput) {
+  errors.forEach(({ file, operationName, errors }) => {
+    output.error(
+      `${file}: ${operationLabel(operationName)} could not be costed: ${errors.join(", ")}`
+    );
+  });
+}
+
+function signed(delta: number): string {
+  return delta > 0 ? `+${delta}` : `${delta}`;
+}
+
+function printDiff(diff: CostDiff, output: CliOutput) {
+  diff.operations.forEach(
+    ({ file, operationName, before, after, delta, newlyOverThreshold, fields }) => {
+      const change = `${file}: ${operationLabel(operationName)} ${
+        before ?? "(added)"
+      } -> ${after ?? "(removed)"} (${signed(delta)})`;
+      const print = newlyOverThreshold ? output.error : output.log;
+      print(
+        newlyOverThreshold
+          ? `${change}, over the threshold of ${diff.threshold}`
+          : change
+      );
+      fields.forEach(({ path, before, after, delta }) =>
+        print(`  ${path} ${before} -> ${after} (${signed(delta)})`)
+      );
+    }
+  );
+  printErrors(diff.errors, output);
+}
+
+async function writeReports(result: AnalysisResult, options: CliOptions) {
+  const reports = [
+    { file: options.json, report: jsonReport },
+    { file: options.markdown, report: markdownReport },
+    { file: options.junit, report: junitReport },
+  ];
+  await Promise.all(
+    reports.map(({ file, report }) =>
+      isSome(file) ? fs.writeFile(file, report(result)) : undefined
+    )
+  );
+}
+
+// costs the operations of a client against a schema, and returns the exit code: 1 if any operation
+// is over the threshold or could not be costed, 0 otherwise. When comparing with a base schema or
+// base operations, only operations that are newly over the threshold fail.
+export async function run(
+  argv: readonly string[],
+  output: CliOutput
+): Promise<number> {
+  const program = new Command()
+    .name("graphql-query-cost")
+    .description(
+      "Costs GraphQL operations against a schema, failing when any is over the threshold."
+    )
+    .argument("<operations...>", "globs of .graphql files with operations")
+    .requiredOption(
+      "-s, --schema <path>",
+      "schema as SDL, or as introspection JSON"
+    )
+    .option(
+      "-c, --config <path>",
+      "JS or JSON module exporting the options of queryCost"
+    )
+    .option("-v, --variables <path>", "JSON variables of the operations")
+    .option(
+      "-t, --threshold <cost>",
+      "maximum cost, overriding costThreshold of the config"
+    )
+    .option("--json <path>", "write a JSON report")
+    .option("--markdown <path>", "write a Markdown report")
+    .option("--junit <path>", "write a JUnit XML report")
+    .option(
+      "--base-schema <path>",
+      "compare costs with this schema, failing only on operations newly over the threshold"
+    )
+    .option(
+      "--base-operations <glob>",
+      "compare costs with these operations, failing only on operations newly over the threshold",
+      (glob: string, globs: string[]) => [...globs, glob],
+      []
+    )
+    .exitOverride()
+    .configureOutput({
+      writeOut: (message) => output.log(message.trimEnd()),
+      writeErr: (message) => output.error(message.trimEnd()),
+    });
+  try {
+    program.parse([...argv], { from: "user" });
+  } catch (e) {
+    if (e instanceof CommanderError) {
+      return e.exitCode;
+    }
+    throw e;
+  }
+  const options = program.opts<CliOptions>();
+  try {
+    const config = isSome(options.config)
+      ? await loadConfig(options.config)
+      : {};
+    const costThreshold = isSome(options.threshold)
+      ? Number(options.threshold)
+      : config.costThreshold;
+    if (!isSome(costThreshold) || isNaN(costThreshold)) {
+      output.error("A threshold is required, from --threshold or the config");
+      return 1;
+    }
+    const variables = isSome(options.variables)
+      ? JSON.parse(await fs.readFile(options.variables, "utf8"))
+      : config.variables;
+    const schema = await loadSchema(options.schema);
+    const operations = await loadOperations(program.args);
+    if (operations.length === 0) {
+      output.error(`No operations found in ${program.args.join(", ")}`);
+      return 1;
+    }
+    const analysisOptions = { ...config, costThreshold, variables };
+    const result = analyzeOperations(schema, operations, analysisOptions);
+    if (isSome(options.baseSchema) || options.baseOperations.length > 0) {
+      const baseSchema = isSome(options.baseSchema)
+        ? await loadSchema(options.baseSchema)
+        : schema;
+      const baseOperations =
+        options.baseOperations.length > 0
+          ? await loadOperations(options.baseOperations)
+          : operations;
+      const diff = diffCosts(
+        analyzeOperations(baseSchema, baseOperations, analysisOptions),
+        result
+      );
+      printDiff(diff, output);
+      await writeReports(result, options);
+      return passesDiff(diff) ? 0 : 1;
+    }
+    printResult(result, output);
+    await writeReports(result, options);
+    return passesThreshold(result) ? 0 : 1;
+  } catch (e) {
+    output.error((e as Error).message);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2), console).then((code) => {
+    process.exitCode = code;
+  });
+}
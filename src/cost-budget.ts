@@ -0,0 +1,133 @@
+import { GraphQLError } from "graphql";
+
+import type { Maybe } from "./util";
+import { isSome, LruMap } from "./util";
+
+export const COST_BUDGET_EXCEEDED = "COST_BUDGET_EXCEEDED";
+
+// a refillable cost budget: a caller can spend up to capacity at once, and an empty budget
+// refills linearly over windowMs.
+export type CostBudget = {
+  capacity: number;
+  windowMs: number;
+};
+
+// the state of a caller's budget.
+export type CostBucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+export type CostBudgetOutcome = {
+  allowed: boolean;
+  // the budget left after this request.
+  remaining: number;
+  // how long until the request would fit in the budget, null if it never will.
+  retryAfterMs: Maybe<number>;
+};
+
+// stores the budgets of callers. Implementations must consume atomically, so that concurrent
+// requests of the same caller can't spend the same budget twice.
+export interface CostBudgetStore {
+  consume(
+    key: string,
+    cost: number,
+    budget: CostBudget,
+    now: number
+  ): Promise<CostBudgetOutcome>;
+}
+
+// refills a bucket for the time elapsed since it was last updated, then takes the cost out of it
+// if it fits. Exported for stores to share the token bucket logic.
+export function consumeFromBucket(
+  bucket: Maybe<CostBucket>,
+  cost: number,
+  budget: CostBudget,
+  now: number
+): { bucket: CostBucket; outcome: CostBudgetOutcome } {
+  const refillPerMs = budget.capacity / budget.windowMs;
+  const tokens = isSome(bucket)
+    ? Math.min(
+        budget.capacity,
+        bucket.tokens + Math.max(0, now - bucket.updatedAt) * refillPerMs
+      )
+    : budget.capacity;
+  if (cost <= tokens) {
+    return {
+      bucket: { tokens: tokens - cost, updatedAt: now },
+      outcome: { allowed: true, remaining: tokens - cost, retryAfterMs: 0 },
+    };
+  }
+  return {
+    bucket: { tokens, updatedAt: now },
+    outcome: {
+      allowed: false,
+      remaining: tokens,
+      retryAfterMs:
+        cost > budget.capacity
+          ? null
+          : Math.ceil((cost - tokens) / refillPerMs),
+    },
+  };
+}
+
+// keeps budgets in memory, for a single server. Callers that haven't been seen in a while are
+// evicted, which refills their budget.
+export class InMemoryCostBudgetStore implements CostBudgetStore {
+  private readonly buckets: LruMap<string, CostBucket>;
+
+  constructor(maxCallers = 10_000) {
+    this.buckets = new LruMap<string, CostBucket>(maxCallers);
+  }
+
+  public async consume(
+    key: string,
+    cost: number,
+    budget: CostBudget,
+    now: number
+  ): Promise<CostBudgetOutcome> {
+    const { bucket, outcome } = consumeFromBucket(
+      this.buckets.get(key),
+      cost,
+      budget,
+      now
+    );
+    this.buckets.set(key, bucket);
+    return outcome;
+  }
+}
+
+// surfaced to clients with a stable code and when to retry in its extensions.
+export class CostBudgetExceededError extends GraphQLError {
+  public constructor(calculatedCost: number, outcome: CostBudgetOutcome) {
+    super(
+      `Blocked request because cost budget exceeded. Calculated: ${calculatedCost}, remaining ${Math.floor(
+        outcome.remaining
+      )}`,
+      {
+        extensions: {
+          code: COST_BUDGET_EXCEEDED,
+          cost: {
+            requested: calculatedCost,
+            remaining: Math.floor(outcome.remaining),
+            retryAfterMs: outcome.retryAfterMs,
+          },
+        },
+      }
+    );
+  }
+}
+
+export type CostBudgetOptions<TContext> = CostBudget & {
+  // identifies the caller of a request from its context, e.g. by user id.
+  // requests without a caller aren't limited.
+  identifyCaller: (context: TContext) => Maybe<string>;
+  store?: Maybe<CostBudgetStore>;
+  // the current time in milliseconds, passed to the store. Defaults to Date.now.
+  now?: () => number;
+  onBudgetExceeded?: (
+    caller: string,
+    cost: number,
+    outcome: CostBudgetOutcome
+  ) => void;
+};
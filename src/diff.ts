@@ -0,0 +1,186 @@
+import { uniqBy } from "lodash";
+
+import type {
+  AnalysisResult,
+  OperationCost,
+  OperationError,
+} from "./analysis";
+import type { CostExplanation, SelectionCostNode } from "./query-cost";
+import type { Maybe } from "./util";
+import { isSome } from "./util";
+
+export type FieldCostDelta = {
+  path: string;
+  before: number;
+  after: number;
+  delta: number;
+};
+
+export type OperationCostDiff = {
+  file: string;
+  operationName: Maybe<string>;
+  // null if the operation was added or removed.
+  before: Maybe<number>;
+  after: Maybe<number>;
+  delta: number;
+  // over the threshold after the change, but not before.
+  newlyOverThreshold: boolean;
+  // the fields whose cost changed the most, i.e. the fields responsible for the delta.
+  fields: FieldCostDelta[];
+};
+
+export type CostDiff = {
+  threshold: number;
+  // changed, added and removed operations, by decreasing absolute delta.
+  operations: OperationCostDiff[];
+  // operations that could not be costed after the change, or matched because their key is shared.
+  errors: OperationError[];
+};
+
+// the counted cost of every field path of an explanation. Fields of inline fragments count for
+// their share, and fields with the same path in different inline fragments add up.
+function fieldPathCosts(explanation: CostExplanation): Map<string, number> {
+  const costs = new Map<string, number>();
+  const collect = (
+    nodes: readonly SelectionCostNode[],
+    path: readonly string[],
+    share: number
+  ) => {
+    nodes.forEach((node) => {
+      if (node.kind === "InlineFragment") {
+        collect(node.children, path, share * node.share);
+        return;
+      }
+      const fieldPath = [...path, node.alias ?? node.name];
+      const key = fieldPath.join(".");
+      costs.set(key, (costs.get(key) ?? 0) + share * node.cost);
+      collect(node.children, fieldPath, share);
+    });
+  };
+  explanation.operations.forEach((operation) =>
+    collect(operation.children, [], operation.multiplier)
+  );
+  return costs;
+}
+
+function fieldCostDeltas(
+  before: Maybe<OperationCost>,
+  after: Maybe<OperationCost>,
+  count: number
+): FieldCostDelta[] {
+  const beforeCosts = isSome(before)
+    ? fieldPathCosts(before.breakdown)
+    : new Map<string, number>();
+  const afterCosts = isSome(after)
+    ? fieldPathCosts(after.breakdown)
+    : new Map<string, number>();
+  const paths = new Set([...beforeCosts.keys(), ...afterCosts.keys()]);
+  return [...paths]
+    .map((path) => {
+      const beforeCost = beforeCosts.get(path) ?? 0;
+      const afterCost = afterCosts.get(path) ?? 0;
+      return {
+        path,
+        before: beforeCost,
+        after: afterCost,
+        delta: afterCost - beforeCost,
+      };
+    })
+    .filter(({ delta }) => delta !== 0)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+    .slice(0, count);
+}
+
+// operations are matched by name, or by file when they are anonymous.
+function operationKey({
+  file,
+  operationName,
+}: OperationCost | OperationError): string {
+  return operationName ?? file;
+}
+
+function duplicateKeys(costs: readonly OperationCost[]): Set<string> {
+  const keys = new Set<string>();
+  const duplicates = new Set<string>();
+  costs.forEach((cost) => {
+    const key = operationKey(cost);
+    (keys.has(key) ? duplicates : keys).add(key);
+  });
+  return duplicates;
+}
+
+// operations sharing a key can't be matched, so they are reported as errors instead of diffed.
+function duplicateErrors(
+  costs: readonly OperationCost[],
+  duplicates: Set<string>
+): OperationError[] {
+  return uniqBy(
+    costs.filter((cost) => duplicates.has(operationKey(cost))),
+    ({ file, operationName }) => JSON.stringify([file, operationName])
+  ).map(({ file, operationName }) => ({
+    file,
+    operationName,
+    errors: [
+      isSome(operationName)
+        ? `another operation is named ${operationName}, so its cost can't be compared`
+        : "another anonymous operation is in the same file, so its cost can't be compared",
+    ],
+  }));
+}
+
+// compares the costs of the same operations against two schemas, or of two versions of operations
+// against the same schema, and attributes every delta to the fields responsible for it.
+export function diffCosts(
+  before: AnalysisResult,
+  after: AnalysisResult,
+  fieldsPerOperation = 5
+): CostDiff {
+  const duplicates = new Set([
+    ...duplicateKeys(before.costs),
+    ...duplicateKeys(after.costs),
+  ]);
+  const keyedCosts = (costs: readonly OperationCost[]) =>
+    new Map(
+      costs
+        .filter((cost) => !duplicates.has(operationKey(cost)))
+        .map((cost) => [operationKey(cost), cost])
+    );
+  const beforeCosts = keyedCosts(before.costs);
+  const afterCosts = keyedCosts(after.costs);
+  const keys = new Set([...beforeCosts.keys(), ...afterCosts.keys()]);
+  const operations = [...keys]
+    .map((key): OperationCostDiff => {
+      const beforeCost = beforeCosts.get(key);
+      const afterCost = afterCosts.get(key);
+      // an operation is in at least one of the results.
+      const { file, operationName } = (afterCost ?? beforeCost) as OperationCost;
+      return {
+        file,
+        operationName,
+        before: beforeCost?.cost ?? null,
+        after: afterCost?.cost ?? null,
+        delta: (afterCost?.cost ?? 0) - (beforeCost?.cost ?? 0),
+        newlyOverThreshold:
+          (afterCost?.overThreshold ?? false) &&
+          !(beforeCost?.overThreshold ?? false),
+        fields: fieldCostDeltas(beforeCost, afterCost, fieldsPerOperation),
+      };
+    })
+    .filter(({ before, after, delta }) => delta !== 0 || before !== after)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+  return {
+    threshold: after.threshold,
+    operations,
+    errors: [
+      ...after.errors,
+      ...duplicateErrors([...before.costs, ...after.costs], duplicates),
+    ],
+  };
+}
+
+export function passesDiff(diff: CostDiff): boolean {
+  return (
+    diff.errors.length === 0 &&
+    diff.operations.every(({ newlyOverThreshold }) => !newlyOverThreshold)
+  );
+}
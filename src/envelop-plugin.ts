@@ -0,0 +1,86 @@
+import type { Plugin, TypedExecutionArgs } from "@envelop/core";
+
+import type { ExecutionResult, GraphQLSchema } from "graphql";
+
+import type {
+  CostOutcome,
+  QueryCostPluginOptions,
+} from "./query-cost-enforcer";
+import {
+  QueryCostEnforcer,
+  responseExtensions,
+} from "./query-cost-enforcer";
+import type { VariableValues } from "./util";
+import { isSome } from "./util";
+
+// the options of the server plugins, where sampling and the cache size are optional.
+export type EnvelopQueryCostOptions<TContext = Record<string, unknown>> = Omit<
+  QueryCostPluginOptions<TContext>,
+  "sampleRate" | "queryCacheSize"
+> & {
+  sampleRate?: number;
+  queryCacheSize?: number;
+};
+
+// costs operations before they are executed or subscribed to, for Envelop and GraphQL Yoga.
+// an enforcer is kept per schema, since plugins can replace the schema.
+export function useQueryCost<TContext extends Record<string, unknown>>({
+  sampleRate = 1,
+  queryCacheSize = 1000,
+  ...options
+}: EnvelopQueryCostOptions<TContext>): Plugin<TContext> {
+  const enforcers = new WeakMap<GraphQLSchema, QueryCostEnforcer<TContext>>();
+  const enforcerFor = (schema: GraphQLSchema) => {
+    let enforcer = enforcers.get(schema);
+    if (!isSome(enforcer)) {
+      enforcer = new QueryCostEnforcer<TContext>(schema, {
+        ...options,
+        sampleRate,
+        queryCacheSize,
+      });
+      enforcers.set(schema, enforcer);
+    }
+    return enforcer;
+  };
+
+  const enforce = (args: TypedExecutionArgs<TContext>): Promise<CostOutcome> =>
+    enforcerFor(args.schema).enforce({
+      document: args.document,
+      variables: args.variableValues as VariableValues,
+      operationName: args.operationName,
+      context: args.contextValue,
+    });
+
+  return {
+    async onExecute({ args, setResultAndStopExecution }) {
+      const outcome = await enforce(args);
+      if (isSome(outcome.error)) {
+        setResultAndStopExecution({ errors: [outcome.error] });
+        return;
+      }
+      const extensions = responseExtensions(outcome);
+      if (!isSome(extensions)) {
+        return;
+      }
+      return {
+        onExecuteDone({ result, setResult }) {
+          // incremental results are streamed, so there is no single result to report on.
+          if (Symbol.asyncIterator in result) {
+            return;
+          }
+          const executionResult = result as ExecutionResult;
+          setResult({
+            ...executionResult,
+            extensions: { ...executionResult.extensions, ...extensions },
+          });
+        },
+      };
+    },
+    async onSubscribe({ args, setResultAndStopExecution }) {
+      const { error } = await enforce(args);
+      if (isSome(error)) {
+        setResultAndStopExecution({ errors: [error] });
+      }
+    },
+  };
+}
@@ -0,0 +1,141 @@
+import type { DocumentNode, GraphQLSchema } from "graphql";
+import { noop } from "lodash";
+
+import type { CostExplanation, CostOptions, QueryShape } from "./query-cost";
+import { cacheKey, costVariables, explainCost } from "./query-cost";
+import type { Maybe, VariableValues } from "./util";
+import { isSome, LruMap } from "./util";
+
+export type CostResult = {
+  cost: number;
+  shape: QueryShape;
+  // whether the cost came from the cache.
+  cached: boolean;
+};
+
+export type QueryCostCalculatorOptions = CostOptions & {
+  // the number of costs to keep, by query and the variables its cost depends on.
+  queryCacheSize?: number;
+  onCacheHit?: () => void;
+  onCacheMiss?: () => void;
+  onCostCalculated?: (
+    cost: number,
+    document: DocumentNode,
+    durationMs: number
+  ) => void;
+};
+
+// calculates the cost of documents against a schema, caching costs by query and the variables
+// the cost depends on. Framework adapters, e.g. the Apollo plugin, are built on top of it.
+export class QueryCostCalculator {
+  private readonly schema: GraphQLSchema;
+  private readonly costOptions: CostOptions;
+  private readonly onCacheHit: () => void;
+  private readonly onCacheMiss: () => void;
+  private readonly onCostCalculated: (
+    cost: number,
+    document: DocumentNode,
+    durationMs: number
+  ) => void;
+  private readonly cachedCosts: LruMap<
+    string,
+    { cost: number; shape: QueryShape }
+  >;
+  private readonly cachedCostVariables: LruMap<string, readonly string[]>;
+
+  constructor(
+    schema: GraphQLSchema,
+    {
+      queryCacheSize = 1000,
+      onCacheHit = noop,
+      onCacheMiss = noop,
+      onCostCalculated = noop,
+      ...costOptions
+    }: QueryCostCalculatorOptions = {}
+  ) {
+    costOptions.typeCostConfig?.typeFrequencies?.forEach((frequency, type) => {
+      if (!(frequency >= 0)) {
+        throw new Error(
+          `Type frequency should be >= 0, got ${frequency} for ${type}`
+        );
+      }
+    });
+    this.schema = schema;
+    this.costOptions = costOptions;
+    this.onCacheHit = onCacheHit;
+    this.onCacheMiss = onCacheMiss;
+    this.onCostCalculated = onCostCalculated;
+    this.cachedCosts = new LruMap<string, { cost: number; shape: QueryShape }>(
+      queryCacheSize
+    );
+    this.cachedCostVariables = new LruMap<string, readonly string[]>(
+      queryCacheSize
+    );
+  }
+
+  public cost(
+    document: DocumentNode,
+    variables?: Maybe<VariableValues>,
+    operationName?: Maybe<string>
+  ): CostResult {
+    const req = document.loc?.source.body;
+    // documents built without a source can't be keyed, so they are costed every time.
+    const key = isSome(req)
+      ? cacheKey(
+          req,
+          variables ?? {},
+          operationName,
+          this.costVariables(req, document, operationName)
+        )
+      : undefined;
+    const cachedCost = isSome(key) ? this.cachedCosts.get(key) : undefined;
+    if (isSome(cachedCost)) {
+      this.onCacheHit();
+      return { ...cachedCost, cached: true };
+    }
+    this.onCacheMiss();
+    const start = Date.now();
+    const { cost, shape } = this.explain(document, variables, operationName);
+    const durationMs = Date.now() - start;
+    if (isSome(key)) {
+      this.cachedCosts.set(key, { cost, shape });
+    }
+    this.onCostCalculated(cost, document, durationMs);
+    return { cost, shape, cached: false };
+  }
+
+  // a breakdown of the cost, which isn't cached.
+  public explain(
+    document: DocumentNode,
+    variables?: Maybe<VariableValues>,
+    operationName?: Maybe<string>
+  ): CostExplanation {
+    return explainCost(
+      this.schema,
+      document,
+      variables,
+      this.costOptions,
+      operationName
+    );
+  }
+
+  // the variables a query's cost depends on only change with the query, so only walk it once.
+  private costVariables(
+    req: string,
+    document: DocumentNode,
+    operationName: Maybe<string>
+  ): readonly string[] {
+    const queryKey = cacheKey(req, {}, operationName, []);
+    let cacheVariables = this.cachedCostVariables.get(queryKey);
+    if (!isSome(cacheVariables)) {
+      cacheVariables = costVariables(
+        this.schema,
+        this.costOptions,
+        document,
+        operationName
+      );
+      this.cachedCostVariables.set(queryKey, cacheVariables);
+    }
+    return cacheVariables;
+  }
+}
@@ -0,0 +1,356 @@
+import type { DocumentNode, GraphQLError, GraphQLSchema } from "graphql";
+import { getOperationAST } from "graphql";
+import { noop } from "lodash";
+
+import type {
+  CostBudgetOptions,
+  CostBudgetOutcome,
+  CostBudgetStore,
+} from "./cost-budget";
+import {
+  CostBudgetExceededError,
+  InMemoryCostBudgetStore,
+} from "./cost-budget";
+import type { CostExplanation, CostOptions } from "./query-cost";
+import { QueryCostTooHighError, topFieldCosts } from "./query-cost";
+import type {
+  CostResult,
+  QueryCostCalculatorOptions,
+} from "./query-cost-calculator";
+import { QueryCostCalculator } from "./query-cost-calculator";
+import type { QueryLimits } from "./query-limits";
+import { exceededQueryLimit, QueryLimitExceededError } from "./query-limits";
+import type { Maybe, VariableValues } from "./util";
+import { isSome } from "./util";
+
+// the cost of a request, as reported in the extensions of its response.
+export type CostReport = {
+  requested: number;
+  maximum: number;
+  cached: boolean;
+  breakdown?: CostExplanation;
+};
+
+// added to the extensions of responses to requests over the warning threshold.
+export type CostWarning = {
+  message: string;
+  requested: number;
+  threshold: number;
+};
+
+// a candidate cost model and threshold, evaluated side by side with the enforced ones without
+// affecting requests, e.g. to observe the effect of lowering a limit before enforcing it.
+// cost options the candidate doesn't set are the enforced ones.
+export type ShadowCostOptions = CostOptions & {
+  costThreshold: number;
+  // called when the candidate would block a request the enforced model lets through, or vice versa.
+  onDisagreement?: (disagreement: CostDisagreement) => void;
+};
+
+export type CostDisagreement = {
+  document: DocumentNode;
+  operationName: Maybe<string>;
+  enforced: { cost: number; overThreshold: boolean };
+  candidate: { cost: number; overThreshold: boolean };
+};
+
+// a fixed threshold, or one computed per request from its context, e.g. its user or client name.
+export type CostThreshold<TContext> = number | ((context: TContext) => number);
+
+// operations exempt from blocking, which are still costed and reported.
+export type CostAllowlist = {
+  operationNames?: Maybe<readonly string[]>;
+  // the SHA-256 hashes of queries, as sent by clients using persisted queries.
+  queryHashes?: Maybe<readonly string[]>;
+};
+
+// the options of the server plugins.
+export type QueryCostPluginOptions<TContext> = QueryCostCalculatorOptions & {
+  // requests over it are blocked, if blocking is enabled. When blockThreshold is set, requests over it
+  // are warned about instead, unless warnThreshold is set too.
+  costThreshold: CostThreshold<TContext>;
+  sampleRate: number;
+  blockOnHighQueryCost: boolean;
+  queryCacheSize: number;
+  // requests over it are blocked, if blocking is enabled. Defaults to costThreshold.
+  blockThreshold?: Maybe<CostThreshold<TContext>>;
+  // requests over it, but not blocked, fire onThresholdWarning and get a warning in the extensions
+  // of their response. Can be sampled, unlike blocking. Defaults to costThreshold if blockThreshold is set.
+  warnThreshold?: Maybe<number>;
+  onThresholdWarning?: (
+    cost: number,
+    threshold: number,
+    document: DocumentNode
+  ) => void;
+  shadow?: Maybe<ShadowCostOptions>;
+  allowlist?: Maybe<CostAllowlist>;
+  // limits on the shape of requests, which block them like the threshold does.
+  queryLimits?: Maybe<QueryLimits>;
+  // the number of most expensive field paths to attach to the error of blocked requests.
+  topFieldsInError?: number;
+  // whether to add the cost of requests to the extensions of their responses, optionally with its breakdown.
+  reportCostInResponse?: boolean;
+  reportCostBreakdownInResponse?: boolean;
+  // a refillable cost budget per caller, which requests deduct their cost from.
+  costBudget?: Maybe<CostBudgetOptions<TContext>>;
+  onError?: (e: Error) => void;
+  onRequestBlocked?: (
+    cost: number,
+    document: DocumentNode,
+    explain: () => CostExplanation
+  ) => void;
+};
+
+// a resolved operation, as seen by a server.
+export type CostRequest<TContext> = {
+  document: DocumentNode;
+  variables: Maybe<VariableValues>;
+  operationName: Maybe<string>;
+  context: TContext;
+  // the SHA-256 hash of the query, if the server computes it.
+  queryHash?: Maybe<string>;
+};
+
+export type CostOutcome = {
+  // the report to add to the response, if enabled.
+  report: Maybe<CostReport>;
+  warning: Maybe<CostWarning>;
+  // the error to reject the request with, if it's blocked.
+  error: Maybe<GraphQLError>;
+};
+
+function thresholdFor<TContext>(
+  threshold: CostThreshold<TContext>,
+  context: TContext
+): number {
+  return typeof threshold === "function" ? threshold(context) : threshold;
+}
+
+// costs requests and decides whether to block them, independently of the server. The server plugins
+// are adapters turning its outcome into their own error and response model.
+export class QueryCostEnforcer<TContext> {
+  private readonly options: QueryCostPluginOptions<TContext>;
+  private readonly calculator: QueryCostCalculator;
+  private readonly shadowCalculator: Maybe<QueryCostCalculator>;
+  private readonly budgetStore: CostBudgetStore;
+  private readonly allowedOperationNames: Set<string>;
+  private readonly allowedQueryHashes: Set<string>;
+
+  constructor(
+    schema: GraphQLSchema,
+    options: QueryCostPluginOptions<TContext>
+  ) {
+    const { sampleRate, blockOnHighQueryCost, costBudget } = options;
+    if (sampleRate < 0 || sampleRate > 1) {
+      throw new Error(`Sample rate should be >= 0 && <= 1, got ${sampleRate}`);
+    }
+    if (sampleRate < 1 && blockOnHighQueryCost) {
+      throw new Error(
+        "Sample rate cannot be < 1 if blockOnHighQuery cost is enabled"
+      );
+    }
+    if (sampleRate < 1 && isSome(costBudget)) {
+      throw new Error("Sample rate cannot be < 1 if a cost budget is enabled");
+    }
+    this.options = options;
+    this.calculator = new QueryCostCalculator(schema, options);
+    // the candidate keeps its own cache, and doesn't fire the events of the enforced model.
+    this.shadowCalculator = isSome(options.shadow)
+      ? new QueryCostCalculator(schema, {
+          ...options,
+          onCacheHit: noop,
+          onCacheMiss: noop,
+          onCostCalculated: noop,
+          ...options.shadow,
+        })
+      : undefined;
+    this.budgetStore = costBudget?.store ?? new InMemoryCostBudgetStore();
+    this.allowedOperationNames = new Set(options.allowlist?.operationNames);
+    this.allowedQueryHashes = new Set(options.allowlist?.queryHashes);
+  }
+
+  public async enforce({
+    document,
+    variables,
+    operationName,
+    context,
+    queryHash,
+  }: CostRequest<TContext>): Promise<CostOutcome> {
+    const {
+      costThreshold,
+      sampleRate,
+      blockOnHighQueryCost,
+      blockThreshold,
+      warnThreshold,
+      onThresholdWarning = noop,
+      topFieldsInError = 0,
+      reportCostInResponse = false,
+      reportCostBreakdownInResponse = false,
+      costBudget,
+      onError = noop,
+      onRequestBlocked = noop,
+      queryLimits,
+    } = this.options;
+    const threshold = thresholdFor(blockThreshold ?? costThreshold, context);
+    // with a separate block threshold, the cost threshold is where warnings start.
+    const warningThreshold =
+      warnThreshold ??
+      (isSome(blockThreshold) ? thresholdFor(costThreshold, context) : undefined);
+    const allowed: CostOutcome = {
+      report: undefined,
+      warning: undefined,
+      error: undefined,
+    };
+    if (Math.random() > sampleRate) {
+      return allowed;
+    }
+    let result: CostResult;
+    try {
+      result = this.calculator.cost(document, variables, operationName);
+    } catch (e) {
+      onError(e as Error);
+      // documents too large to cost are blocked rather than let through uncosted.
+      if (
+        e instanceof QueryLimitExceededError &&
+        blockOnHighQueryCost &&
+        !this.isAllowlisted(document, operationName, queryHash)
+      ) {
+        return { ...allowed, error: e };
+      }
+      return allowed;
+    }
+    const { cost, cached, shape } = result;
+    this.compareWithShadow(document, variables, operationName, cost, threshold);
+    let explanation: Maybe<CostExplanation> = undefined;
+    const explain = () => {
+      explanation =
+        explanation ??
+        this.calculator.explain(document, variables, operationName);
+      return explanation;
+    };
+    const report: Maybe<CostReport> = reportCostInResponse
+      ? {
+          requested: cost,
+          maximum: threshold,
+          cached,
+          ...(reportCostBreakdownInResponse ? { breakdown: explain() } : {}),
+        }
+      : undefined;
+    if (this.isAllowlisted(document, operationName, queryHash)) {
+      return { report, warning: undefined, error: undefined };
+    }
+    const limitError = exceededQueryLimit(shape, queryLimits);
+    if (blockOnHighQueryCost && (isSome(limitError) || cost > threshold)) {
+      onRequestBlocked(cost, document, explain);
+      return {
+        report,
+        warning: undefined,
+        error:
+          limitError ??
+          new QueryCostTooHighError(
+            cost,
+            threshold,
+            topFieldsInError > 0
+              ? topFieldCosts(explain(), topFieldsInError)
+              : undefined
+          ),
+      };
+    }
+    let warning: Maybe<CostWarning> = undefined;
+    if (isSome(warningThreshold) && cost > warningThreshold) {
+      onThresholdWarning(cost, warningThreshold, document);
+      warning = {
+        message: `Calculated cost ${cost} is over the warning threshold of ${warningThreshold}`,
+        requested: cost,
+        threshold: warningThreshold,
+      };
+    }
+    if (isSome(costBudget)) {
+      const caller = costBudget.identifyCaller(context);
+      if (!isSome(caller)) {
+        return { report, warning, error: undefined };
+      }
+      let outcome: CostBudgetOutcome;
+      try {
+        outcome = await this.budgetStore.consume(
+          caller,
+          cost,
+          costBudget,
+          (costBudget.now ?? Date.now)()
+        );
+      } catch (e) {
+        // don't block requests when the store is unavailable.
+        onError(e as Error);
+        return { report, warning, error: undefined };
+      }
+      if (!outcome.allowed) {
+        costBudget.onBudgetExceeded?.(caller, cost, outcome);
+        return {
+          report,
+          warning,
+          error: new CostBudgetExceededError(cost, outcome),
+        };
+      }
+    }
+    return { report, warning, error: undefined };
+  }
+
+  private isAllowlisted(
+    document: DocumentNode,
+    operationName: Maybe<string>,
+    queryHash: Maybe<string>
+  ): boolean {
+    // requests can omit the name of their only operation.
+    const name = getOperationAST(document, operationName)?.name?.value;
+    return (
+      (isSome(name) && this.allowedOperationNames.has(name)) ||
+      (isSome(queryHash) && this.allowedQueryHashes.has(queryHash))
+    );
+  }
+
+  // costs the request with the candidate model, and reports whether it disagrees with the enforced one.
+  private compareWithShadow(
+    document: DocumentNode,
+    variables: Maybe<VariableValues>,
+    operationName: Maybe<string>,
+    cost: number,
+    threshold: number
+  ) {
+    const { shadow, onError = noop } = this.options;
+    if (!isSome(shadow) || !isSome(this.shadowCalculator)) {
+      return;
+    }
+    let candidateCost: number;
+    try {
+      candidateCost = this.shadowCalculator.cost(
+        document,
+        variables,
+        operationName
+      ).cost;
+    } catch (e) {
+      onError(e as Error);
+      return;
+    }
+    const enforced = { cost, overThreshold: cost > threshold };
+    const candidate = {
+      cost: candidateCost,
+      overThreshold: candidateCost > shadow.costThreshold,
+    };
+    if (enforced.overThreshold !== candidate.overThreshold) {
+      shadow.onDisagreement?.({ document, operationName, enforced, candidate });
+    }
+  }
+}
+
+// the extensions to add to the response of a request.
+export function responseExtensions(
+  outcome: CostOutcome
+): Maybe<Record<string, unknown>> {
+  if (!isSome(outcome.report) && !isSome(outcome.warning)) {
+    return undefined;
+  }
+  return {
+    ...(isSome(outcome.report) ? { cost: outcome.report } : {}),
+    ...(isSome(outcome.warning) ? { costWarning: outcome.warning } : {}),
+  };
+}
@@ -0,0 +1,89 @@
+import type { ASTVisitor, ValidationContext, ValidationRule } from "graphql";
+import { GraphQLError } from "graphql";
+
+import type { CostExplanation, CostOptions } from "./query-cost";
+import {
+  explainCost,
+  InvalidDocumentError,
+  QueryCostTooHighError,
+  topFieldCosts,
+} from "./query-cost";
+import type { QueryLimits } from "./query-limits";
+import { exceededQueryLimit } from "./query-limits";
+import type { Maybe, VariableValues } from "./util";
+import { isSome } from "./util";
+
+export type QueryCostRuleOptions = CostOptions & {
+  costThreshold: number;
+  // validation doesn't know about the variables and operation name of a request, so they are
+  // passed when the rule is created for it.
+  variables?: Maybe<VariableValues>;
+  operationName?: Maybe<string>;
+  // the number of most expensive field paths to attach to the error.
+  topFieldsInError?: number;
+  queryLimits?: Maybe<QueryLimits>;
+  onCostCalculated?: (cost: number, explanation: CostExplanation) => void;
+  // called with errors costing documents, which are reported as validation errors.
+  onError?: (e: Error) => void;
+};
+
+// a validation rule rejecting documents that cost more than the threshold, for servers that
+// validate with graphql-js rather than through the Apollo plugin.
+export function createQueryCostRule({
+  costThreshold,
+  variables,
+  operationName,
+  topFieldsInError = 0,
+  queryLimits,
+  onCostCalculated,
+  onError,
+  ...costOptions
+}: QueryCostRuleOptions): ValidationRule {
+  return (context: ValidationContext): ASTVisitor => ({
+    Document: {
+      leave(document) {
+        let explanation: CostExplanation;
+        try {
+          explanation = explainCost(
+            context.getSchema(),
+            document,
+            variables,
+            costOptions,
+            operationName
+          );
+        } catch (e) {
+          // documents invalid in ways other rules or execution report aren't reported twice.
+          if (e instanceof InvalidDocumentError) {
+            return;
+          }
+          onError?.(e as Error);
+          // documents that can't be costed otherwise fail validation, rather than skip the threshold.
+          context.reportError(
+            e instanceof GraphQLError
+              ? e
+              : new GraphQLError(
+                  `Cannot calculate cost: ${(e as Error).message}`
+                )
+          );
+          return;
+        }
+        onCostCalculated?.(explanation.cost, explanation);
+        const limitError = exceededQueryLimit(explanation.shape, queryLimits);
+        if (isSome(limitError)) {
+          context.reportError(limitError);
+        }
+        if (explanation.cost > costThreshold) {
+          context.reportError(
+            new QueryCostTooHighError(
+              explanation.cost,
+              costThreshold,
+              topFieldsInError > 0
+                ? topFieldCosts(explanation, topFieldsInError)
+                : undefined
+            )
+          );
+        }
+      },
+    },
+  });
+}
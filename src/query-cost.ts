@@ -1,25 +1,38 @@
 import crypto from "crypto";
 
-import type { GraphQLRequest } from "apollo-server-core";
-import type { ApolloServerPlugin } from "apollo-server-plugin-base";
-
-import type { VariableValues } from "apollo-server-types";
-
 import stringify from "fast-json-stable-stringify";
 
 import type {
+  ArgumentNode,
   ASTNode,
+  DirectiveNode,
   DocumentNode,
   FieldNode,
+  FragmentDefinitionNode,
+  GraphQLNamedType,
+  GraphQLObjectType,
   GraphQLSchema,
   InlineFragmentNode,
   OperationDefinitionNode,
   SelectionNode,
+  SelectionSetNode,
 } from "graphql";
 
 import {
+  getDirectiveValues,
+  getNamedType,
+  getNullableType,
   GraphQLError,
+  GraphQLIncludeDirective,
+  GraphQLSkipDirective,
+  isAbstractType,
+  isInterfaceType,
+  isListType,
+  isObjectType,
+  Kind,
+  OperationTypeNode,
   parse,
+  print,
   stripIgnoredCharacters,
   TypeInfo,
   ValidationContext,
@@ -30,50 +43,48 @@ import {
 import { getVariableValues } from "graphql/execution/values";
 import { pick, noop } from "lodash";
 
-export type Maybe<T> = T | null | undefined;
+import { QueryLimitExceededError } from "./query-limits";
+import type { Maybe, VariableValues } from "./util";
+import { isSome, LruMap } from "./util";
 
-function isSome<T>(arg: Maybe<T>): arg is NonNullable<T> {
-  return arg !== null && arg !== undefined;
-} 
+export type { Maybe };
+export { LruMap };
 
-class QueryCostTooHighError extends Error {
-  public constructor(calculatedCost: number, threshold: number) {
+export const QUERY_COST_TOO_HIGH = "QUERY_COST_TOO_HIGH";
+
+// the path of a field in the response, e.g. resources.edges.node, with its cost.
+export type FieldPathCost = {
+  path: string;
+  cost: number;
+};
+
+// surfaced to clients with a stable code and the calculated cost in its extensions, so they can
+// react to it programmatically, e.g. by requesting a smaller page size.
+export class QueryCostTooHighError extends GraphQLError {
+  public constructor(
+    calculatedCost: number,
+    threshold: number,
+    topFields?: Maybe<readonly FieldPathCost[]>
+  ) {
     super(
-      `Blocked request because calculated cost too high. Calculated: ${calculatedCost}, threshold ${threshold}`
+      `Blocked request because calculated cost too high. Calculated: ${calculatedCost}, threshold ${threshold}`,
+      {
+        extensions: {
+          code: QUERY_COST_TOO_HIGH,
+          cost: {
+            requested: calculatedCost,
+            maximum: threshold,
+            ...(isSome(topFields) ? { topFields } : {}),
+          },
+        },
+      }
     );
   }
 }
 
-// Defines a capped map with least-recently-used eviction strategy
-// key idea is from here: https://medium.com/sparkles-blog/a-simple-lru-cache-in-typescript-cba0d9807c40
-// javascript maps retain insertion order.
-export class LruMap<U, V> {
-  private readonly maxCapacity: number;
-  private readonly backingMap: Map<U, V>;
-
-  constructor(maxCapacity: number) {
-    this.maxCapacity = maxCapacity;
-    this.backingMap = new Map<U, V>();
-  }
-
-  public get(key: U): Maybe<V> {
-    const entry = this.backingMap.get(key);
-    if (isSome(entry)) {
-      // peek the entry, re-insert for LRU strategy
-      this.backingMap.delete(key);
-      this.backingMap.set(key, entry);
-    }
-    return entry;
-  }
-
-  public set(key: U, value: V) {
-    if (this.backingMap.size >= this.maxCapacity) {
-      const keyToDelete = this.backingMap.keys().next().value;
-      this.backingMap.delete(keyToDelete);
-    }
-    this.backingMap.set(key, value);
-  }
-}
+// thrown for documents that can't be costed because they are invalid in a way that validation or
+// execution reports on its own, e.g. an unknown fragment or operation.
+export class InvalidDocumentError extends Error {}
 
 function getDirectiveCost(
   directiveCostConfig: Maybe<Map<string, number>>,
@@ -106,14 +117,620 @@ function getDirectiveCost(
   return matches.reduce((currentCost, cost) => currentCost + cost, 0);
 }
 
+// SDL for the directives the cost calculator reads from field definitions. Include these in your
+// schema to declare the weight and list size of a field next to its definition.
+export const costDirectiveTypeDefs = `
+directive @cost(
+  weight: Int
+  multipliers: [String!]
+  useMultipliers: Boolean = true
+) on FIELD_DEFINITION | OBJECT
+
+directive @listSize(
+  assumedSize: Int
+  slicingArguments: [String!]
+  sizedFields: [String!]
+) on FIELD_DEFINITION
+`;
+
+// arguments of @cost. On types, only weight applies and is the cost of returning an object of the type.
+// on root types, it is the base cost of the operation.
+// weight:         the cost of a single instance of the field, defaults to 1.
+// multipliers:    arguments of the field whose values multiply the weight of the field, e.g. ids: [ID!].
+// useMultipliers: whether the weight is multiplied at all, by multipliers and by the page sizes of the
+//                 enclosing lists. Defaults to true.
+type CostDirective = {
+  weight?: Maybe<number>;
+  multipliers?: Maybe<readonly string[]>;
+  useMultipliers?: Maybe<boolean>;
+};
+
+// arguments of @listSize.
+// assumedSize:      the number of items the field returns when it isn't sliced.
+// slicingArguments: arguments of the field that set the number of items it returns, defaults to first and last.
+// sizedFields:      child fields that are multiplied by the list size, e.g. edges. All children when unset.
+type ListSizeDirective = {
+  assumedSize?: Maybe<number>;
+  slicingArguments?: Maybe<readonly string[]>;
+  sizedFields?: Maybe<readonly string[]>;
+};
+
+const defaultSlicingArguments: readonly string[] = ["first", "last"] as const;
+
+// declares which arguments slice a field, i.e. set the number of items it returns.
+export type SlicingArgumentsConfig = {
+  // argument names that slice any field, defaults to first and last.
+  defaultArguments?: Maybe<readonly string[]>;
+  // argument names keyed by field coordinate (e.g. "Query.resources"), which take precedence over
+  // the overrides by type.
+  overrides?: Maybe<Map<string, readonly string[]>>;
+  // argument names keyed by the type a field returns (e.g. "ResourceConn"), which take precedence
+  // over the overrides by parent type.
+  returnTypeOverrides?: Maybe<Map<string, readonly string[]>>;
+  // argument names keyed by the type a field belongs to (e.g. "Query").
+  parentTypeOverrides?: Maybe<Map<string, readonly string[]>>;
+};
+
+// declares how many items a field is assumed to return when it isn't sliced.
+export type ListSizeConfig = {
+  // assumed number of items of any field returning a list that doesn't take slicing arguments, or
+  // that does but is requested without them when maxPageSize isn't set.
+  defaultListSize?: Maybe<number>;
+  // assumed number of items of a field that takes slicing arguments but is requested without them,
+  // e.g. the maximum page size of the server.
+  maxPageSize?: Maybe<number>;
+  // assumed number of items keyed by field coordinate (e.g. "ResourceConn.tl").
+  assumedSizes?: Maybe<Map<string, number>>;
+};
+
+// declares how subscriptions are costed. A subscription runs its selection set for every event,
+// so its cost is the cost of the selection set times the number of events it is assumed to receive,
+// plus a fixed surcharge for keeping the subscription open.
+export type SubscriptionCostConfig = {
+  // defaults to 1.
+  eventRate?: Maybe<number>;
+  // the base cost of subscriptions, unless OperationCostConfig sets one. Defaults to 0.
+  surcharge?: Maybe<number>;
+};
+
+// declares the base cost of operations and surcharges for root fields. Both can also be declared
+// in the schema with @cost on the root types and root fields.
+export type OperationCostConfig = {
+  // base cost by operation type. Defaults to 10 for mutations and 0 otherwise.
+  baseCosts?: Maybe<{
+    query?: Maybe<number>;
+    mutation?: Maybe<number>;
+    subscription?: Maybe<number>;
+  }>;
+  // cost added to the weight of root fields, keyed by field coordinate (e.g. "Mutation.bulkImport").
+  rootFieldSurcharges?: Maybe<Map<string, number>>;
+};
+
+// declares a surcharge for requesting the same field under several aliases. Identical selections are
+// merged before costing, like GraphQL execution does, but every alias of a field is resolved separately.
+export type AliasCostConfig = {
+  // cost added to the weight of every response key of a field beyond freeAliases in a selection set.
+  surcharge: number;
+  // the number of response keys a field can be requested under without surcharge. Defaults to 1.
+  freeAliases?: Maybe<number>;
+};
+
+// declares an argument whose value multiplies the cost of a field and of its children.
+export type ArgumentMultiplier = {
+  // numeric arguments multiply by their value, and list arguments by their number of items.
+  argument: string;
+  // boolean arguments multiply by this factor when they are true.
+  whenTrue?: Maybe<number>;
+};
+
+// how the possible types of an interface or union are combined: by taking the most expensive one,
+// by adding them all up, or by weighing them by how frequently they are returned.
+export type AbstractTypeStrategy = "max" | "sum" | "weighted";
+
+// declares the cost of returning objects of a type, and how the possible types of interfaces
+// and unions are combined.
+export type TypeCostConfig = {
+  // the cost of returning an object of a type, keyed by type name. Can also be declared
+  // with @cost on the type.
+  typeWeights?: Maybe<Map<string, number>>;
+  // applies both to the type weights of the possible types of a field and to inline fragments
+  // on them. Defaults to "max".
+  abstractTypeStrategy?: Maybe<AbstractTypeStrategy>;
+  // the relative frequency of object types for the "weighted" strategy, keyed by type name.
+  // Defaults to 1, i.e. all possible types are equally likely. Must not be negative, and types
+  // with a frequency of 0 are never counted.
+  typeFrequencies?: Maybe<Map<string, number>>;
+};
+
+// the cost model, shared by cost calculation and cache keying.
+export type CostOptions = {
+  directiveCostConfig?: Maybe<Map<string, number>>;
+  slicingArgumentsConfig?: Maybe<SlicingArgumentsConfig>;
+  listSizeConfig?: Maybe<ListSizeConfig>;
+  subscriptionCostConfig?: Maybe<SubscriptionCostConfig>;
+  operationCostConfig?: Maybe<OperationCostConfig>;
+  // argument multipliers keyed by field coordinate (e.g. "Query.resourcesByIds").
+  argumentMultiplierConfig?: Maybe<Map<string, readonly ArgumentMultiplier[]>>;
+  typeCostConfig?: Maybe<TypeCostConfig>;
+  aliasCostConfig?: Maybe<AliasCostConfig>;
+  // the most fields and inline fragments an operation can expand to once its fragments are
+  // resolved. Operations expanding to more are rejected with a QueryLimitExceededError.
+  // defaults to 100,000.
+  maxSelections?: Maybe<number>;
+};
+
+function slicingArgumentsFor(
+  context: ValidationContext,
+  node: FieldNode,
+  config: Maybe<SlicingArgumentsConfig>
+): readonly string[] {
+  const parentType = context.getParentType();
+  const returnType = context.getType();
+  // the type keys are kept apart, so that an override for fields returning a type doesn't
+  // also apply to the fields of that type.
+  const override =
+    (isSome(parentType)
+      ? config?.overrides?.get(`${parentType.name}.${node.name.value}`)
+      : undefined) ??
+    (isSome(returnType)
+      ? config?.returnTypeOverrides?.get(getNamedType(returnType).name)
+      : undefined) ??
+    (isSome(parentType)
+      ? config?.parentTypeOverrides?.get(parentType.name)
+      : undefined);
+  return override ?? config?.defaultArguments ?? defaultSlicingArguments;
+}
+
+function fieldDirectiveValues(
+  context: ValidationContext,
+  directiveName: string
+): Maybe<Record<string, unknown>> {
+  const directive = context.getSchema().getDirective(directiveName);
+  const astNode = context.getFieldDef()?.astNode;
+  if (!isSome(directive) || !isSome(astNode)) {
+    return undefined;
+  }
+  return getDirectiveValues(directive, astNode);
+}
+
+function numberValue(value: unknown): Maybe<number> {
+  return typeof value === "number" && isFinite(value) ? value : undefined;
+}
+
+function stringsValue(value: unknown): Maybe<readonly string[]> {
+  return Array.isArray(value) && value.every((v) => typeof v === "string")
+    ? value
+    : undefined;
+}
+
+// schemas can declare the directives with other argument types, e.g. weight: String!, so
+// only the values of the expected types are used.
+function costDirectiveOf(
+  values: Maybe<Record<string, unknown>>
+): Maybe<CostDirective> {
+  if (!isSome(values)) {
+    return undefined;
+  }
+  return {
+    weight: numberValue(values.weight),
+    multipliers: stringsValue(values.multipliers),
+    useMultipliers:
+      typeof values.useMultipliers === "boolean"
+        ? values.useMultipliers
+        : undefined,
+  };
+}
+
+function listSizeDirectiveOf(
+  values: Maybe<Record<string, unknown>>
+): Maybe<ListSizeDirective> {
+  if (!isSome(values)) {
+    return undefined;
+  }
+  return {
+    assumedSize: numberValue(values.assumedSize),
+    slicingArguments: stringsValue(values.slicingArguments),
+    sizedFields: stringsValue(values.sizedFields),
+  };
+}
+
+// resolves the numeric value of an argument, either from a literal or from a variable.
+// list values count as their number of items. Negative values would subtract from the cost,
+// so they are left unresolved like non numeric ones.
+function argumentValue(
+  context: ValidationContext,
+  arg: ArgumentNode,
+  variables: VariableValues
+): Maybe<number> {
+  switch (arg.value.kind) {
+    case Kind.INT: {
+      const val = parseInt(arg.value.value, 10);
+      if (isNaN(val)) {
+        context.reportError(
+          new GraphQLError(`Unexpected non number in IntVal: ${arg.name.value}`)
+        );
+        return undefined;
+      }
+      return val < 0 ? undefined : val;
+    }
+    case Kind.LIST: {
+      return arg.value.values.length;
+    }
+    case Kind.VARIABLE: {
+      const variable = variables[arg.value.name.value];
+      if (Array.isArray(variable)) {
+        return variable.length;
+      }
+      const val = parseInt(String(variable), 10);
+      // not a numeric parameter, even though it is used as one.
+      // bail out of calculations for it.
+      return isNaN(val) || val < 0 ? undefined : val;
+    }
+    default: {
+      return undefined;
+    }
+  }
+}
+
+// the weight of a single instance of a field, before any pagination is applied.
+function fieldWeight(
+  directiveCostConfig: Maybe<Map<string, number>>,
+  costDirective: Maybe<CostDirective>,
+  context: ValidationContext,
+  node: FieldNode,
+  variables: VariableValues
+): number {
+  let weight =
+    costDirective?.weight ?? getDirectiveCost(directiveCostConfig, context);
+  if (costDirective?.useMultipliers === false) {
+    return weight;
+  }
+  costDirective?.multipliers?.forEach((name) => {
+    const arg = node.arguments?.find((a) => a.name.value === name);
+    const val = isSome(arg) ? argumentValue(context, arg, variables) : undefined;
+    if (isSome(val)) {
+      weight *= val;
+    }
+  });
+  return weight;
+}
+
+// the base cost of an operation, from the config, or from @cost on its root type.
+function operationBaseCost(
+  schema: GraphQLSchema,
+  { operationCostConfig, subscriptionCostConfig }: CostOptions,
+  operation: OperationTypeNode
+): number {
+  const configured =
+    operationCostConfig?.baseCosts?.[operation] ??
+    (operation === OperationTypeNode.SUBSCRIPTION
+      ? subscriptionCostConfig?.surcharge
+      : undefined);
+  if (isSome(configured)) {
+    return configured;
+  }
+  const directive = schema.getDirective("cost");
+  const astNode = schema.getRootType(operation)?.astNode;
+  const costDirective =
+    isSome(directive) && isSome(astNode)
+      ? costDirectiveOf(getDirectiveValues(directive, astNode))
+      : undefined;
+  const weight = costDirective?.weight;
+  if (isSome(weight)) {
+    return weight;
+  }
+  // make mutations unilaterally a little more expensive since they put more load on
+  // our datastores.
+  return operation === "mutation" ? 10 : 0;
+}
+
+// the cost added to a root field by the config. Root fields can also declare it in their @cost weight.
+function rootFieldSurcharge(
+  context: ValidationContext,
+  config: Maybe<OperationCostConfig>,
+  node: FieldNode,
+  operation: OperationTypeNode
+): number {
+  const parentType = context.getParentType();
+  if (
+    !isSome(config?.rootFieldSurcharges) ||
+    !isSome(parentType) ||
+    parentType !== context.getSchema().getRootType(operation)
+  ) {
+    return 0;
+  }
+  return (
+    config?.rootFieldSurcharges?.get(`${parentType.name}.${node.name.value}`) ??
+    0
+  );
+}
+
+// the number of siblings of the same field that precede each selection, counted once per selection set.
+function precedingSiblings(
+  selections: readonly ASTNode[],
+  counts: WeakMap<readonly ASTNode[], readonly number[]>
+): readonly number[] {
+  let preceding = counts.get(selections);
+  if (!isSome(preceding)) {
+    const seen = new Map<string, number>();
+    preceding = selections.map((selection) => {
+      if (selection.kind !== Kind.FIELD) {
+        return 0;
+      }
+      const count = seen.get(selection.name.value) ?? 0;
+      seen.set(selection.name.value, count + 1);
+      return count;
+    });
+    counts.set(selections, preceding);
+  }
+  return preceding;
+}
+
+// the cost added to a field requested under more response keys than its free aliases, counting
+// the siblings of the same field that precede it. Siblings are merged, so their response keys differ.
+function aliasSurcharge(
+  config: Maybe<AliasCostConfig>,
+  key: Maybe<string | number>,
+  parent: Maybe<Ancestor>,
+  counts: WeakMap<readonly ASTNode[], readonly number[]>
+): number {
+  if (
+    !isSome(config) ||
+    typeof key !== "number" ||
+    !isSome(parent) ||
+    isNode(parent)
+  ) {
+    return 0;
+  }
+  const index = precedingSiblings(parent, counts)[key];
+  return index >= (config.freeAliases ?? 1) ? config.surcharge : 0;
+}
+
+function argumentMultipliersFor(
+  context: ValidationContext,
+  config: Maybe<Map<string, readonly ArgumentMultiplier[]>>,
+  node: FieldNode
+): readonly ArgumentMultiplier[] {
+  const parentType = context.getParentType();
+  if (!isSome(config) || !isSome(parentType)) {
+    return [];
+  }
+  return config.get(`${parentType.name}.${node.name.value}`) ?? [];
+}
+
+// resolves whether a boolean argument is true, either from a literal or from a variable.
+function isArgumentTrue(arg: ArgumentNode, variables: VariableValues): boolean {
+  switch (arg.value.kind) {
+    case Kind.BOOLEAN:
+      return arg.value.value;
+    case Kind.VARIABLE:
+      return variables[arg.value.name.value] === true;
+    default:
+      return false;
+  }
+}
+
+// the product of the argument multipliers of a field, which multiplies the cost of the field
+// and of its children, e.g. ids: [ID!] in a batch lookup.
+function argumentFactor(
+  context: ValidationContext,
+  config: Maybe<Map<string, readonly ArgumentMultiplier[]>>,
+  node: FieldNode,
+  variables: VariableValues
+): number {
+  let factor = 1;
+  argumentMultipliersFor(context, config, node).forEach((multiplier) => {
+    const arg = node.arguments?.find(
+      (a) => a.name.value === multiplier.argument
+    );
+    if (!isSome(arg)) {
+      return;
+    }
+    let val: Maybe<number> = undefined;
+    if (isSome(multiplier.whenTrue)) {
+      val = isArgumentTrue(arg, variables) ? multiplier.whenTrue : undefined;
+    } else {
+      val = argumentValue(context, arg, variables);
+    }
+    if (isSome(val)) {
+      factor *= val;
+    }
+  });
+  return factor;
+}
+
+function possibleTypes(
+  schema: GraphQLSchema,
+  type: Maybe<GraphQLNamedType>
+): readonly GraphQLObjectType[] {
+  if (isAbstractType(type)) {
+    return schema.getPossibleTypes(type);
+  }
+  return isObjectType(type) ? [type] : [];
+}
+
+// negative frequencies would subtract from the cost, so they count as types that are never returned.
+function typeFrequency(
+  config: Maybe<TypeCostConfig>,
+  type: GraphQLObjectType
+): number {
+  return Math.max(config?.typeFrequencies?.get(type.name) ?? 1, 0);
+}
+
+// the cost of returning an object of a type, from the config, or from @cost on the type.
+function typeWeight(
+  schema: GraphQLSchema,
+  config: Maybe<TypeCostConfig>,
+  type: GraphQLObjectType
+): number {
+  const configured = config?.typeWeights?.get(type.name);
+  if (isSome(configured)) {
+    return configured;
+  }
+  const directive = schema.getDirective("cost");
+  const costDirective =
+    isSome(directive) && isSome(type.astNode)
+      ? costDirectiveOf(getDirectiveValues(directive, type.astNode))
+      : undefined;
+  return costDirective?.weight ?? 0;
+}
+
+// the cost of returning an object of a type, combining the possible types of interfaces and unions.
+function returnedTypeWeight(
+  schema: GraphQLSchema,
+  config: Maybe<TypeCostConfig>,
+  type: Maybe<GraphQLNamedType>
+): number {
+  const types = possibleTypes(schema, type);
+  if (types.length === 0) {
+    return 0;
+  }
+  const weights = types.map((t) => typeWeight(schema, config, t));
+  switch (config?.abstractTypeStrategy ?? "max") {
+    case "sum":
+      return weights.reduce((total, weight) => total + weight, 0);
+    case "weighted": {
+      const frequencies = types.map((t) => typeFrequency(config, t));
+      const total = frequencies.reduce((sum, frequency) => sum + frequency, 0);
+      return total > 0
+        ? weights.reduce(
+            (expected, weight, i) =>
+              expected + (weight * frequencies[i]) / total,
+            0
+          )
+        : 0;
+    }
+    default:
+      return Math.max(...weights);
+  }
+}
+
+// the share of objects of a parent type that an inline fragment on the given type condition applies to,
+// weighed by the frequency of the possible types of the parent.
+function typeConditionShare(
+  schema: GraphQLSchema,
+  config: Maybe<TypeCostConfig>,
+  parentType: Maybe<GraphQLNamedType>,
+  typeCondition: Maybe<string>
+): number {
+  const conditionType = isSome(typeCondition)
+    ? schema.getType(typeCondition)
+    : undefined;
+  const types = possibleTypes(schema, parentType);
+  if (
+    !isSome(conditionType) ||
+    conditionType === parentType ||
+    types.length === 0
+  ) {
+    return 1;
+  }
+  let total = 0;
+  let matched = 0;
+  types.forEach((type) => {
+    const frequency = typeFrequency(config, type);
+    total += frequency;
+    if (
+      type === conditionType ||
+      (isAbstractType(conditionType) && schema.isSubType(conditionType, type))
+    ) {
+      matched += frequency;
+    }
+  });
+  return total > 0 ? matched / total : 0;
+}
+
+type ListSize = {
+  listFactor: number;
+  sizedFields: Maybe<readonly string[]>;
+};
+
+// the number of items an unsliced field is assumed to return.
+function assumedListSize(
+  context: ValidationContext,
+  config: Maybe<ListSizeConfig>,
+  node: FieldNode,
+  slicingArguments: readonly string[]
+): number {
+  const parentType = context.getParentType();
+  const fieldDef = context.getFieldDef();
+  if (!isSome(config) || !isSome(parentType) || !isSome(fieldDef)) {
+    return 1;
+  }
+  const assumedSize = config.assumedSizes?.get(
+    `${parentType.name}.${node.name.value}`
+  );
+  if (isSome(assumedSize)) {
+    return assumedSize;
+  }
+  // a connection requested without slicing arguments returns as many items as the server allows.
+  if (
+    isSome(config.maxPageSize) &&
+    fieldDef.args.some((arg) => slicingArguments.includes(arg.name))
+  ) {
+    return config.maxPageSize;
+  }
+  if (isListType(getNullableType(fieldDef.type))) {
+    return config.defaultListSize ?? 1;
+  }
+  return 1;
+}
+
+// computes the number of items a field returns from its slicing arguments,
+// which multiplies the cost of its children.
+function listSize(
+  context: ValidationContext,
+  { slicingArgumentsConfig, listSizeConfig }: CostOptions,
+  node: FieldNode,
+  variables: VariableValues
+): ListSize {
+  const listSizeDirective = listSizeDirectiveOf(
+    fieldDirectiveValues(context, "listSize")
+  );
+  const slicingArguments =
+    listSizeDirective?.slicingArguments ??
+    slicingArgumentsFor(context, node, slicingArgumentsConfig);
+  // slicing arguments that are null or unset, e.g. last: $last in Relay connections, don't slice.
+  const slicingArgs = (node.arguments ?? [])
+    .filter((arg) => slicingArguments.includes(arg.name.value))
+    .map((arg) => ({ arg, val: argumentValue(context, arg, variables) }))
+    .filter(({ val }) => isSome(val));
+  if (slicingArgs.length > 1) {
+    context.reportError(
+      new GraphQLError(
+        `Received multiple slicing arguments (${slicingArgs
+          .map(({ arg }) => arg.name.value)
+          .join(", ")}); cannot cost: ${node.name.value}`
+      )
+    );
+  }
+  let listFactor: Maybe<number> = undefined;
+  slicingArgs.forEach(({ val }) => {
+    if (isSome(val)) {
+      listFactor = (listFactor ?? 1) * val;
+    }
+  });
+  return {
+    listFactor:
+      listFactor ??
+      listSizeDirective?.assumedSize ??
+      assumedListSize(context, listSizeConfig, node, slicingArguments),
+    sizedFields: listSizeDirective?.sizedFields,
+  };
+}
+
 type Ancestor = ASTNode | readonly ASTNode[];
 
 function isNode(arg: Ancestor): arg is ASTNode {
   return !Array.isArray(arg);
 }
 
-function isASTArray(arg: Ancestor): arg is readonly ASTNode[] {
-  return Array.isArray(arg);
+// the factors a field multiplies the cost of its children by.
+type ChildFactors = ListSize & {
+  argumentFactor: number;
+};
+
+function hasChildFactors(n: FieldNode): n is FieldNode & ChildFactors {
+  return "listFactor" in n;
 }
 
 // computes the total number of items actually returned for paginated queries.
@@ -127,123 +744,516 @@ function isASTArray(arg: Ancestor): arg is readonly ASTNode[] {
 // paginationFactor(foo)       == 50
 // paginationFactor(conn)      == 50
 // paginationFactor(bar)       == 500
+// ancestors have already been annotated with their list size when they were entered.
 function paginationFactor(
-  context: ValidationContext,
   ancestors: readonly Ancestor[],
-  variables: VariableValues
+  node: FieldNode
 ): number {
+  const fields: FieldNode[] = [];
+  ancestors.forEach((ancestor) => {
+    if (isNode(ancestor) && ancestor.kind === Kind.FIELD) {
+      fields.push(ancestor);
+    }
+  });
+  fields.push(node);
+
   let factor = 1;
-  ancestors.forEach(ancestor => {
-    if (isASTArray(ancestor)) {
+  fields.forEach((field, i) => {
+    if (i === fields.length - 1 || !hasChildFactors(field)) {
       return;
     }
-    if (ancestor.kind !== "Field") {
+    factor *= field.argumentFactor;
+    // with sized fields, only those children are repeated for every item, e.g.
+    // edges is, but totalCount isn't.
+    const child = fields[i + 1];
+    if (
+      isSome(field.sizedFields) &&
+      !field.sizedFields.includes(child.name.value)
+    ) {
       return;
     }
-    let hasFirst = false;
-    let hasLast = false;
-    ancestor.arguments?.forEach(arg => {
-      switch (arg.name.value) {
-        case "first":
-          hasFirst = true;
-          break;
-        case "last":
-          hasLast = true;
-          break;
-        default:
-          return;
-      }
-      let val = NaN;
-      switch (arg.value.kind) {
-        case "IntValue": {
-          val = parseInt(arg.value.value, 10);
-          if (isNaN(val)) {
-            context.reportError(
-              new GraphQLError(
-                `Unexpected non number in IntVal: ${arg.name.value}`
-              )
-            );
-            return;
-          }
-          break;
-        }
-        case "Variable": {
-          val = parseInt(variables[arg.value.name.value], 10);
-          if (isNaN(val)) {
-            // not a pagination parameter, even though this is named $first or $last
-            // bail out of pagination calculations.
-            return;
-          }
-          break;
-        }
-        default: {
-          return;
-        }
-      }
-      factor *= val;
-    });
-    if (hasFirst && hasLast) {
-      context.reportError(
-        new GraphQLError(
-          `Received both first and last parameters; cannot cost: ${ancestor.name.value}`
-        )
-      );
-    }
+    factor *= field.listFactor;
   });
   return factor;
 }
 
-type InlineFragmentCost = {
-  inlineFragmentCost: number;
+// the cost of a field, as reported by explainCost.
+export type FieldCostNode = {
+  kind: "Field";
+  name: string;
+  alias: Maybe<string>;
+  // the weight of a single instance of the field.
+  weight: number;
+  // the number of instances of the field, from the page sizes of the enclosing lists.
+  multiplier: number;
+  // the cost of the field itself, weight * multiplier.
+  cost: number;
+  // the cost of the field and of its children.
+  subtotal: number;
+  children: readonly SelectionCostNode[];
 };
 
-function hasInlineFragmentCost(
-  n: SelectionNode | InlineFragmentCost
-): n is InlineFragmentCost {
-  return "inlineFragmentCost" in n;
+// the cost of an inline fragment, as reported by explainCost.
+export type InlineFragmentCostNode = {
+  kind: "InlineFragment";
+  typeCondition: Maybe<string>;
+  // whether this inline fragment was counted, e.g. as the most expensive of its siblings.
+  chosen: boolean;
+  // the share of its subtotal that was counted, between 0 and 1.
+  share: number;
+  subtotal: number;
+  children: readonly SelectionCostNode[];
+};
+
+export type SelectionCostNode = FieldCostNode | InlineFragmentCostNode;
+
+// the cost of an operation, as reported by explainCost.
+export type OperationCostNode = {
+  kind: "OperationDefinition";
+  operation: string;
+  name: Maybe<string>;
+  // the base cost of the operation, e.g. for mutations.
+  weight: number;
+  // the number of times the selection set runs, e.g. the event rate of subscriptions.
+  multiplier: number;
+  subtotal: number;
+  children: readonly SelectionCostNode[];
+};
+
+// the shape of a document, measured while costing it, which query limits are checked against.
+export type QueryShape = {
+  // the deepest nesting of fields, 1 for root fields.
+  depth: number;
+  // the number of aliased fields.
+  aliases: number;
+  // the number of distinct root fields of the operations.
+  rootFields: number;
+};
+
+// a breakdown of the cost of a document, mirroring its selection sets.
+export type CostExplanation = {
+  cost: number;
+  operations: readonly OperationCostNode[];
+  shape: QueryShape;
+};
+
+type FieldCost = ChildFactors & {
+  weight: number;
+  multiplier: number;
+};
+
+function hasFieldCost(n: FieldNode): n is FieldNode & FieldCost {
+  return "multiplier" in n;
+}
+
+function assertFieldCost(n: FieldNode): asserts n is FieldNode & FieldCost {
+  if (!hasFieldCost(n)) {
+    throw new Error(`no field cost! ${n.kind}`);
+  }
 }
 
-type IntermediateCost = {
-  currentCost: number;
+type SelectionCost = {
+  costNode: SelectionCostNode;
 };
 
-function hasIntermediateCost(
-  n: FieldNode | SelectionNode
-): n is (FieldNode | SelectionNode) & IntermediateCost {
-  return "currentCost" in n;
+function hasSelectionCost(
+  n: SelectionNode
+): n is SelectionNode & SelectionCost {
+  return "costNode" in n;
+}
+
+// adds up the cost of fields, but by default takes the max cost of inline fragments rather than adding
+// them up, since they mostly select fields of different possible types and an object only has one type.
+// inline fragments can have inline fragment children recursively, which their own subtotal accounts for.
+function selectionsCost(
+  selections: readonly SelectionNode[],
+  strategy: AbstractTypeStrategy,
+  typeConditionShare: (typeCondition: Maybe<string>) => number
+): {
+  subtotal: number;
+  children: SelectionCostNode[];
+} {
+  let fieldsCost = 0;
+  let chosen: Maybe<InlineFragmentCostNode> = undefined;
+  for (const n of selections) {
+    if (!hasSelectionCost(n)) {
+      throw new Error(`Unexpected node kind child: ${n.kind}`);
+    }
+    const { costNode } = n;
+    if (costNode.kind === "Field") {
+      fieldsCost += costNode.subtotal;
+    } else if (costNode.subtotal > (chosen?.subtotal ?? -Infinity)) {
+      chosen = costNode;
+    }
+  }
+  const children = selections
+    .filter(hasSelectionCost)
+    .map(({ costNode }): SelectionCostNode => {
+      if (costNode.kind === "Field") {
+        return costNode;
+      }
+      let share = costNode === chosen ? 1 : 0;
+      if (strategy === "sum") {
+        share = 1;
+      } else if (strategy === "weighted") {
+        share = typeConditionShare(costNode.typeCondition);
+      }
+      return { ...costNode, chosen: share > 0, share };
+    });
+  return {
+    subtotal: children.reduce(
+      (total, child) =>
+        child.kind === "InlineFragment"
+          ? total + child.share * child.subtotal
+          : total,
+      fieldsCost
+    ),
+    children,
+  };
+}
+
+function fieldType(
+  parentType: Maybe<GraphQLNamedType>,
+  fieldName: string
+): Maybe<GraphQLNamedType> {
+  if (!isObjectType(parentType) && !isInterfaceType(parentType)) {
+    return undefined;
+  }
+  const fieldDef = parentType.getFields()[fieldName];
+  return isSome(fieldDef) ? getNamedType(fieldDef.type) : undefined;
 }
 
-function assertIntermediateCost(
-  n: FieldNode | SelectionNode
-): asserts n is (FieldNode | SelectionNode) & IntermediateCost {
-  if (!hasIntermediateCost(n)) {
-    throw new Error(`no intermediate cost! ${n.kind}`);
+// the variables of an operation, with their defaults. Invalid variables are rejected by execution,
+// and costing without them could cache a cost for page sizes it doesn't apply to.
+function coercedVariables(
+  schema: GraphQLSchema,
+  operation: OperationDefinitionNode,
+  requestVariables: VariableValues
+): VariableValues {
+  const { coerced, errors } = getVariableValues(
+    schema,
+    operation.variableDefinitions ? [...operation.variableDefinitions] : [],
+    requestVariables
+  );
+  if (!isSome(coerced)) {
+    throw new InvalidDocumentError(
+      `Cannot calculate cost with invalid variables: ${(errors ?? [])
+        .map((e) => e.message)
+        .join(", ")}`
+    );
   }
+  return coerced;
 }
 
-// we like distinguishing these cases because
-// we might not be adding up the cost of each descendant, but instead taking the max of
-// children
-function isDirectDescendentOfInlineFragment(
-  ancestors: readonly Ancestor[]
+// the key under which field collection merges selections: fields with the same response key,
+// arguments and directives execute once, and inline fragments on the same type are collected together.
+function mergeKey(selection: SelectionNode): Maybe<string> {
+  const directives = (selection.directives ?? []).map(print).join(" ");
+  switch (selection.kind) {
+    case Kind.FIELD: {
+      const args = (selection.arguments ?? []).map(print).sort().join(", ");
+      const responseKey = selection.alias?.value ?? selection.name.value;
+      return `${responseKey}(${args}) ${directives}`;
+    }
+    case Kind.INLINE_FRAGMENT:
+      return `... on ${selection.typeCondition?.name.value ?? ""} ${directives}`;
+    default:
+      return undefined;
+  }
+}
+
+// merges identical selections, so that a field requested several times, e.g. directly and through
+// a fragment, is costed once, like it is executed once.
+function mergeSelections(
+  selections: readonly SelectionNode[]
+): SelectionNode[] {
+  const merged: SelectionNode[] = [];
+  const indexes = new Map<string, number>();
+  const combined = new Set<number>();
+  selections.forEach((selection) => {
+    const key = mergeKey(selection);
+    const index = isSome(key) ? indexes.get(key) : undefined;
+    if (!isSome(key) || !isSome(index)) {
+      if (isSome(key)) {
+        indexes.set(key, merged.length);
+      }
+      merged.push(selection);
+      return;
+    }
+    const existing = merged[index] as FieldNode | InlineFragmentNode;
+    const { selectionSet } = selection as FieldNode | InlineFragmentNode;
+    if (isSome(existing.selectionSet) && isSome(selectionSet)) {
+      merged[index] = {
+        ...existing,
+        selectionSet: {
+          ...existing.selectionSet,
+          selections: [
+            ...existing.selectionSet.selections,
+            ...selectionSet.selections,
+          ],
+        },
+      } as SelectionNode;
+      combined.add(index);
+    }
+  });
+  // the selections of each selection set are already merged, but combining two can repeat them.
+  combined.forEach((index) => {
+    const selection = merged[index] as FieldNode | InlineFragmentNode;
+    if (isSome(selection.selectionSet)) {
+      merged[index] = {
+        ...selection,
+        selectionSet: {
+          ...selection.selectionSet,
+          selections: mergeSelections(selection.selectionSet.selections),
+        },
+      } as SelectionNode;
+    }
+  });
+  return merged;
+}
+
+// whether @skip or @include exclude a selection, like field collection does. Selections whose
+// conditions can't be evaluated, e.g. because a variable is missing, are costed.
+function isExcluded(
+  selection: SelectionNode,
+  variables: VariableValues
 ): boolean {
-  if (ancestors.length > 1) {
-    const parent = ancestors[ancestors.length - 2];
-    if (isNode(parent) && parent.kind === "InlineFragment") {
-      return true;
+  try {
+    const skip = getDirectiveValues(GraphQLSkipDirective, selection, variables);
+    const include = getDirectiveValues(
+      GraphQLIncludeDirective,
+      selection,
+      variables
+    );
+    return skip?.if === true || include?.if === false;
+  } catch (e) {
+    return false;
+  }
+}
+
+// an included selection, without the conditions that were evaluated.
+function withoutConditions<T extends SelectionNode>(selection: T): T {
+  return {
+    ...selection,
+    directives: selection.directives?.filter(
+      ({ name }) =>
+        name.value !== GraphQLSkipDirective.name &&
+        name.value !== GraphQLIncludeDirective.name
+    ),
+  };
+}
+
+// the state of resolving the fragments of an operation.
+type ResolveContext = {
+  schema: GraphQLSchema;
+  fragments: ReadonlyMap<string, FragmentDefinitionNode>;
+  // when given, selections excluded by @skip or @include are dropped.
+  variables: Maybe<VariableValues>;
+  // fragments resolved so far by name and type, which are shared by all their spreads.
+  resolvedFragments: Map<string, SelectionSetNode>;
+};
+
+// replaces named fragment spreads with the selections of the fragment they refer to, so that
+// a fragment is costed every time it is spread and picks up the pagination factor of its parents.
+// a fragment on the same type as its parent is merged into the parent's selections, while a
+// fragment on a narrower type becomes an inline fragment so that we take the max of the branches.
+// like field collection, a fragment spread more than once in a selection set is only resolved once.
+function resolveSelectionSet(
+  context: ResolveContext,
+  selectionSet: SelectionSetNode,
+  parentType: Maybe<GraphQLNamedType>,
+  visitedFragments: readonly string[]
+): SelectionSetNode {
+  const { schema, fragments, variables, resolvedFragments } = context;
+  const selections: SelectionNode[] = [];
+  const spreadFragments = new Set<string>();
+  selectionSet.selections.forEach((unresolved) => {
+    if (isSome(variables) && isExcluded(unresolved, variables)) {
+      return;
     }
+    const selection = isSome(variables)
+      ? withoutConditions(unresolved)
+      : unresolved;
+    switch (selection.kind) {
+      case Kind.FIELD: {
+        selections.push({
+          ...selection,
+          selectionSet:
+            selection.selectionSet &&
+            resolveSelectionSet(
+              context,
+              selection.selectionSet,
+              fieldType(parentType, selection.name.value),
+              visitedFragments
+            ),
+        });
+        break;
+      }
+      case Kind.INLINE_FRAGMENT: {
+        const typeCondition = selection.typeCondition
+          ? schema.getType(selection.typeCondition.name.value)
+          : parentType;
+        const resolved = resolveSelectionSet(
+          context,
+          selection.selectionSet,
+          typeCondition,
+          visitedFragments
+        );
+        // like fragments on the same type, inline fragments that always apply are merged into the
+        // parent's selections, unless they carry directives that still have to be evaluated.
+        if (
+          (!isSome(parentType) || typeCondition === parentType) &&
+          (selection.directives ?? []).length === 0
+        ) {
+          selections.push(...resolved.selections);
+        } else {
+          selections.push({ ...selection, selectionSet: resolved });
+        }
+        break;
+      }
+      case Kind.FRAGMENT_SPREAD: {
+        const name = selection.name.value;
+        if (spreadFragments.has(name)) {
+          break;
+        }
+        spreadFragments.add(name);
+        if (visitedFragments.includes(name)) {
+          throw new InvalidDocumentError(
+            `Cannot calculate cost of fragment cycle: ${[...visitedFragments, name].join(" -> ")}`
+          );
+        }
+        const fragment = fragments.get(name);
+        if (!isSome(fragment)) {
+          throw new InvalidDocumentError(`Unknown fragment: ${name}`);
+        }
+        const fragmentType =
+          schema.getType(fragment.typeCondition.name.value) ?? parentType;
+        // a fragment resolved without a cycle can't be part of one, so it can be reused as is.
+        const key = `${name} on ${fragmentType?.name ?? ""}`;
+        let resolved = resolvedFragments.get(key);
+        if (!isSome(resolved)) {
+          resolved = resolveSelectionSet(
+            context,
+            fragment.selectionSet,
+            fragmentType,
+            [...visitedFragments, name]
+          );
+          resolvedFragments.set(key, resolved);
+        }
+        if (!isSome(parentType) || fragmentType === parentType) {
+          selections.push(...resolved.selections);
+        } else {
+          selections.push({
+            kind: Kind.INLINE_FRAGMENT,
+            typeCondition: fragment.typeCondition,
+            directives: selection.directives,
+            selectionSet: resolved,
+          });
+        }
+        break;
+      }
+    }
+  });
+  return {
+    ...selectionSet,
+    selections: mergeSelections(selections),
+  };
+}
+
+// the number of fields and inline fragments of a selection set once its fragments are expanded.
+// resolved fragments are shared between their spreads, so sizes are memoized by selection set.
+function expandedSize(
+  selectionSet: SelectionSetNode,
+  sizes: WeakMap<SelectionSetNode, number>
+): number {
+  let size = sizes.get(selectionSet);
+  if (!isSome(size)) {
+    size = selectionSet.selections.reduce((total, selection) => {
+      const children =
+        selection.kind === Kind.FRAGMENT_SPREAD
+          ? undefined
+          : selection.selectionSet;
+      return total + 1 + (isSome(children) ? expandedSize(children, sizes) : 0);
+    }, 0);
+    sizes.set(selectionSet, size);
   }
-  return false;
+  return size;
 }
 
-const supportedOperations: readonly string[] = ["query", "mutation"] as const;
+const defaultMaxSelections = 100_000;
 
-function documentCost(
+// returns a document with only the operation that will be executed, with every fragment spread
+// resolved in place. Fragments that are never spread don't contribute any cost.
+// when no operation name is given, all operations are kept and their costs are added up.
+// when variables are given, selections excluded by @skip or @include are dropped.
+// fragments can expand to exponentially many selections, which would take too long to cost, so
+// operations expanding to more than maxSelections are rejected.
+function resolveOperation(
   schema: GraphQLSchema,
-  directiveCostConfig: Maybe<Map<string, number>>,
-  query: DocumentNode,
+  document: DocumentNode,
+  operationName: Maybe<string>,
+  maxSelections: Maybe<number>,
+  requestVariables?: Maybe<VariableValues>
+): DocumentNode {
+  const fragments = new Map<string, FragmentDefinitionNode>();
+  document.definitions.forEach((definition) => {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments.set(definition.name.value, definition);
+    }
+  });
+  const operations: OperationDefinitionNode[] = [];
+  const sizes = new WeakMap<SelectionSetNode, number>();
+  const maximum = maxSelections ?? defaultMaxSelections;
+  document.definitions.forEach((definition) => {
+    if (
+      definition.kind === Kind.OPERATION_DEFINITION &&
+      (!isSome(operationName) || definition.name?.value === operationName)
+    ) {
+      const selectionSet = resolveSelectionSet(
+        {
+          schema,
+          fragments,
+          variables: isSome(requestVariables)
+            ? coercedVariables(schema, definition, requestVariables)
+            : undefined,
+          resolvedFragments: new Map(),
+        },
+        definition.selectionSet,
+        schema.getRootType(definition.operation),
+        []
+      );
+      const size = expandedSize(selectionSet, sizes);
+      if (size > maximum) {
+        throw new QueryLimitExceededError("maxSelections", size, maximum);
+      }
+      operations.push({ ...definition, selectionSet });
+    }
+  });
+  if (isSome(operationName) && operations.length === 0) {
+    throw new InvalidDocumentError(
+      `Unknown operation named "${operationName}"`
+    );
+  }
+  return {
+    ...document,
+    definitions: operations,
+  };
+}
+
+function documentCostExplanation(
+  schema: GraphQLSchema,
+  options: CostOptions,
+  document: DocumentNode,
   requestVariables: Maybe<VariableValues>,
-): number {
+  operationName: Maybe<string>
+): CostExplanation {
+  const query = resolveOperation(
+    schema,
+    document,
+    operationName,
+    options.maxSelections,
+    requestVariables ?? {}
+  );
   const typeInfo = new TypeInfo(schema);
   type error = { message: string };
   const errors: error[] = [];
@@ -256,8 +1266,25 @@ function documentCost(
     }
   );
 
-  let cost = 0;
+  const operations: OperationCostNode[] = [];
   let variables: VariableValues = {};
+  let operation: OperationTypeNode = OperationTypeNode.QUERY;
+  const shape: QueryShape = { depth: 0, aliases: 0, rootFields: 0 };
+  let rootFields = new Set<string>();
+  const siblingCounts = new WeakMap<readonly ASTNode[], readonly number[]>();
+  // costs the selections of the node being left, whose type is the parent type of its inline fragments.
+  const childSelectionsCost = (selections: readonly SelectionNode[]) =>
+    selectionsCost(
+      selections,
+      options.typeCostConfig?.abstractTypeStrategy ?? "max",
+      (typeCondition) =>
+        typeConditionShare(
+          schema,
+          options.typeCostConfig,
+          getNamedType(validationContext.getType()),
+          typeCondition
+        )
+    );
   // we slightly modify ASTs along the way to keep track of cost for a given field.
   const visitor = {
     Field: {
@@ -268,88 +1295,133 @@ function documentCost(
         path: ReadonlyArray<string | number>,
         ancestors: ReadonlyArray<ASTNode | readonly ASTNode[]>
       ) {
-        const factor = paginationFactor(
+        const depth =
+          ancestors.filter((a) => isNode(a) && a.kind === Kind.FIELD).length +
+          1;
+        shape.depth = Math.max(shape.depth, depth);
+        if (isSome(node.alias)) {
+          shape.aliases += 1;
+        }
+        if (depth === 1) {
+          rootFields.add(node.name.value);
+        }
+        const costDirective = costDirectiveOf(
+          fieldDirectiveValues(validationContext, "cost")
+        );
+        const factor =
+          costDirective?.useMultipliers === false
+            ? 1
+            : paginationFactor(ancestors, node);
+        const weight =
+          fieldWeight(
+            options.directiveCostConfig,
+            costDirective,
+            validationContext,
+            node,
+            variables
+          ) +
+          rootFieldSurcharge(
+            validationContext,
+            options.operationCostConfig,
+            node,
+            operation
+          ) +
+          aliasSurcharge(options.aliasCostConfig, key, parent, siblingCounts);
+        const size = listSize(validationContext, options, node, variables);
+        const fieldDef = validationContext.getFieldDef();
+        const returnsList =
+          isSome(fieldDef) && isListType(getNullableType(fieldDef.type));
+        // a list of leaves has no children to multiply, so the list size applies to the field itself.
+        const ownFactor =
+          !isSome(node.selectionSet) && returnsList ? size.listFactor : 1;
+        // each returned object costs its type weight, so a list of objects costs it once per item.
+        // a connection returns a single object, whose items are weighed through its children.
+        const objectsWeight =
+          returnedTypeWeight(
+            schema,
+            options.typeCostConfig,
+            getNamedType(validationContext.getType())
+          ) * (isSome(node.selectionSet) && returnsList ? size.listFactor : 1);
+        const argFactor = argumentFactor(
           validationContext,
-          ancestors,
+          options.argumentMultiplierConfig,
+          node,
           variables
         );
-        const itemCost = getDirectiveCost(directiveCostConfig,validationContext);
         return {
           ...node,
-          currentCost: factor * itemCost,
+          ...size,
+          argumentFactor: argFactor,
+          weight: weight + objectsWeight,
+          multiplier: factor * ownFactor * argFactor,
         };
       },
-      leave(
-        node: FieldNode,
-        key: Maybe<string | number>,
-        parent: Maybe<ASTNode | readonly ASTNode[]>,
-        path: ReadonlyArray<string | number>,
-        ancestors: ReadonlyArray<ASTNode | readonly ASTNode[]>
-      ) {
-        assertIntermediateCost(node);
-        // we don't want to take direct field costs of inline fragments, but the max
-        // of its children. So skip here. The next section will calculate cost for children fragments.
-        if (!isDirectDescendentOfInlineFragment(ancestors)) {
-          cost += node.currentCost;
-        }
-        let maxCost = 0;
-        node.selectionSet?.selections.forEach(
-          (n: SelectionNode | InlineFragmentCost) => {
-            if (hasInlineFragmentCost(n)) {
-              maxCost =
-                maxCost > n.inlineFragmentCost ? maxCost : n.inlineFragmentCost;
-            }
-          }
+      leave(node: FieldNode) {
+        assertFieldCost(node);
+        const { subtotal, children } = childSelectionsCost(
+          node.selectionSet?.selections ?? []
         );
-        cost += maxCost;
+        const cost = node.weight * node.multiplier;
+        const costNode: FieldCostNode = {
+          kind: "Field",
+          name: node.name.value,
+          alias: node.alias?.value,
+          weight: node.weight,
+          multiplier: node.multiplier,
+          cost,
+          subtotal: cost + subtotal,
+          children,
+        };
+        return {
+          ...node,
+          costNode,
+        };
       },
     },
     InlineFragment: {
       leave(node: InlineFragmentNode) {
-        // this is a tricky one.
-        // if a given node has multiple inline fragment children, we want to take the maximum cost of each inline fragment
-        // rather than adding the cost of all children. This is made more complicated since inline fragments can have
-        // inline fragment children recursively. So handle both cases here.
-        let inlineFragmentCost = 0;
-        let maxRecursiveInlineFragmentCost = 0;
-        node.selectionSet.selections.forEach((n: SelectionNode) => {
-          if (hasInlineFragmentCost(n)) {
-            maxRecursiveInlineFragmentCost =
-              n.inlineFragmentCost > maxRecursiveInlineFragmentCost
-                ? n.inlineFragmentCost
-                : maxRecursiveInlineFragmentCost;
-          } else if (hasIntermediateCost(n)) {
-            inlineFragmentCost += n.currentCost;
-          } else {
-            throw new Error(`Unexpected node kind child: ${n.kind}`);
-          }
-        });
-        inlineFragmentCost += maxRecursiveInlineFragmentCost;
+        const { subtotal, children } = childSelectionsCost(
+          node.selectionSet.selections
+        );
+        const costNode: InlineFragmentCostNode = {
+          kind: "InlineFragment",
+          typeCondition: node.typeCondition?.name.value,
+          chosen: false,
+          share: 0,
+          subtotal,
+          children,
+        };
         return {
           ...node,
-          inlineFragmentCost,
+          costNode,
         };
       },
     },
     OperationDefinition: {
       enter(node: OperationDefinitionNode) {
-        if (!supportedOperations.includes(node.operation)) {
-          throw new Error(
-            `Can only calculate cost for "query" and "mutation" operations, got ${node.operation}`
-          );
-        }
-        // make mutations unilaterally a little more expensive since they put more load on
-        // our datastores.
-        if (node.operation === "mutation") {
-          cost += 10;
-        }
-
-        variables =
-          getVariableValues(
-            schema,
-            node.variableDefinitions ? [...node.variableDefinitions] : [],
-            requestVariables ?? {}
-          ).coerced ?? {};
+        operation = node.operation;
+        rootFields = new Set<string>();
+        variables = coercedVariables(schema, node, requestVariables ?? {});
+      },
+      leave(node: OperationDefinitionNode) {
+        const weight = operationBaseCost(schema, options, node.operation);
+        const multiplier =
+          node.operation === OperationTypeNode.SUBSCRIPTION
+            ? options.subscriptionCostConfig?.eventRate ?? 1
+            : 1;
+        const { subtotal, children } = childSelectionsCost(
+          node.selectionSet.selections
+        );
+        shape.rootFields += rootFields.size;
+        operations.push({
+          kind: "OperationDefinition",
+          operation: node.operation,
+          name: node.name?.value,
+          weight,
+          multiplier,
+          subtotal: weight + multiplier * subtotal,
+          children,
+        });
       },
     },
   };
@@ -360,29 +1432,173 @@ function documentCost(
     throw new Error(errors.map(e => e.message).join(","));
   }
 
-  return cost;
+  return {
+    cost: operations.reduce((cost, operation) => cost + operation.subtotal, 0),
+    operations,
+    shape,
+  };
+}
+
+function documentCost(
+  schema: GraphQLSchema,
+  options: CostOptions,
+  document: DocumentNode,
+  requestVariables: Maybe<VariableValues>,
+  operationName: Maybe<string>
+): number {
+  return documentCostExplanation(
+    schema,
+    options,
+    document,
+    requestVariables,
+    operationName
+  ).cost;
+}
+
+// returns a breakdown of the cost of a document, mirroring its selection sets, with the
+// weight, pagination multiplier and subtotal of every field, and which inline fragments were counted.
+export function explainCost(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  variables: Maybe<VariableValues>,
+  options: CostOptions = {},
+  operationName?: Maybe<string>
+): CostExplanation {
+  return documentCostExplanation(
+    schema,
+    options,
+    document,
+    variables,
+    operationName
+  );
+}
+
+// the most expensive fields of an explanation by their own cost, i.e. the fields that drive the cost.
+// exported for testing
+export function topFieldCosts(
+  explanation: CostExplanation,
+  count: number
+): FieldPathCost[] {
+  const fields: FieldPathCost[] = [];
+  const collect = (nodes: readonly SelectionCostNode[], path: readonly string[]) => {
+    nodes.forEach((node) => {
+      if (node.kind === "InlineFragment") {
+        collect(node.children, path);
+        return;
+      }
+      const fieldPath = [...path, node.alias ?? node.name];
+      fields.push({ path: fieldPath.join("."), cost: node.cost });
+      collect(node.children, fieldPath);
+    });
+  };
+  explanation.operations.forEach((operation) => collect(operation.children, []));
+  return fields.sort((a, b) => b.cost - a.cost).slice(0, count);
 }
 
 // exported only for testing.
 export function costForTesting(
   schema: GraphQLSchema,
-  directiveCostConfig: Maybe<Map<string, number>>,
+  options: CostOptions,
   queryStr: string,
-  variables: Maybe<VariableValues>
+  variables: Maybe<VariableValues>,
+  operationName?: Maybe<string>
 ) {
   const query = parse(queryStr, {
     noLocation: true,
   });
-  return documentCost(schema, directiveCostConfig, query, variables);
+  return documentCost(schema, options, query, variables, operationName);
 }
 
+// finds the variables that flow into arguments the cost depends on, e.g. $pageSize in
+// resources(first: $pageSize), so that a cached cost is never reused for a different page size.
+// this includes the conditions of @skip and @include, which decide whether selections are costed.
 // exported for testing
-export function cacheKey(req: string, variables: VariableValues) {
-  // only use pagination parameters we support for cache keys.
+export function costVariables(
+  schema: GraphQLSchema,
+  {
+    slicingArgumentsConfig,
+    argumentMultiplierConfig,
+    maxSelections,
+  }: CostOptions,
+  document: DocumentNode,
+  operationName: Maybe<string>
+): readonly string[] {
+  const query = resolveOperation(
+    schema,
+    document,
+    operationName,
+    maxSelections
+  );
+  const typeInfo = new TypeInfo(schema);
+  const validationContext = new ValidationContext(
+    schema,
+    query,
+    typeInfo,
+    noop
+  );
+  const names = new Set<string>();
+  const visitor = {
+    Field(node: FieldNode) {
+      const listSizeDirective = listSizeDirectiveOf(
+        fieldDirectiveValues(validationContext, "listSize")
+      );
+      const costDirective = costDirectiveOf(
+        fieldDirectiveValues(validationContext, "cost")
+      );
+      const costArguments = [
+        ...(listSizeDirective?.slicingArguments ??
+          slicingArgumentsFor(validationContext, node, slicingArgumentsConfig)),
+        ...(costDirective?.useMultipliers === false
+          ? []
+          : costDirective?.multipliers ?? []),
+        ...argumentMultipliersFor(
+          validationContext,
+          argumentMultiplierConfig,
+          node
+        ).map(({ argument }) => argument),
+      ];
+      node.arguments?.forEach((arg) => {
+        if (
+          costArguments.includes(arg.name.value) &&
+          arg.value.kind === Kind.VARIABLE
+        ) {
+          names.add(arg.value.name.value);
+        }
+      });
+    },
+  };
+  visit(query, visitWithTypeInfo(typeInfo, visitor));
+  // resolved fragment spreads lose their directives, so conditions are found in the document.
+  visit(document, {
+    Directive(node: DirectiveNode) {
+      if (
+        node.name.value !== GraphQLSkipDirective.name &&
+        node.name.value !== GraphQLIncludeDirective.name
+      ) {
+        return;
+      }
+      node.arguments?.forEach((arg) => {
+        if (arg.value.kind === Kind.VARIABLE) {
+          names.add(arg.value.name.value);
+        }
+      });
+    },
+  });
+  return [...names].sort();
+}
+
+// exported for testing
+export function cacheKey(
+  req: string,
+  variables: VariableValues,
+  operationName?: Maybe<string>,
+  cacheVariables: readonly string[] = defaultSlicingArguments
+) {
+  // only use variables the cost depends on for cache keys.
   // for example, we don't want cursor parameters to be cached since they'll always change.
-  const cacheVars = pick(variables ?? {}, ["first", "last"]);
+  const cacheVars = pick(variables ?? {}, cacheVariables);
 
-  // construct a hash from the request & pagination parameters if present.
+  // construct a hash from the request, pagination parameters & operation name if present.
   return (
     crypto
       .createHash("md5")
@@ -390,103 +1606,8 @@ export function cacheKey(req: string, variables: VariableValues) {
       // add a separator just for safety
       .update("|")
       .update(stringify(cacheVars))
+      .update("|")
+      .update(operationName ?? "")
       .digest("hex")
   );
 }
-
-function getCost(
-  schema: GraphQLSchema,
-  document: DocumentNode,
-  request: GraphQLRequest,
-  directiveCostConfig: Maybe<Map<string, number>>,
-  onCacheHit: () => void,
-  onCacheMiss: () => void,
-  onCostCalculated: (cost: number, document: DocumentNode, durationMs: number) => void,
-  cachedCosts: LruMap<string, number>,
-): number {
-  const req = document?.loc?.source.body;
-  if (!isSome(req)) {
-    return 0;
-  }
-  const key = cacheKey(req, request.variables ?? {});
-  const cachedCost = cachedCosts.get(key);
-  if (isSome(cachedCost)) {
-    onCacheHit();
-    return cachedCost;
-  }
-  onCacheMiss();
-  const start = Date.now();
-  const cost = documentCost(schema, directiveCostConfig, document, request.variables);
-  const durationMs = Date.now() - start;
-  cachedCosts.set(key, cost);
-  onCostCalculated(cost, document, durationMs);
-  return cost;
-}
-
-export default function queryCost(
-  schema: GraphQLSchema,
-  {
-    costThreshold,
-    sampleRate,
-    blockOnHighQueryCost,
-    queryCacheSize,
-    directiveCostConfig,
-    onCacheHit = noop,
-    onCacheMiss = noop,
-    onCostCalculated = noop,
-    onError = noop,
-    onRequestBlocked = noop
-  }: {
-    costThreshold: number;
-    sampleRate: number;
-    blockOnHighQueryCost: boolean;
-    queryCacheSize: number;
-    directiveCostConfig?: Maybe<Map<string, number>>;
-    onCacheHit?: () => void,
-    onCacheMiss?: () => void,
-    onCostCalculated?: (cost: number, document: DocumentNode, durationMs: number) => void,
-    onError?: (e: Error) => void,
-    onRequestBlocked?: (cost: number, document: DocumentNode) => void,
-  }
-): ApolloServerPlugin {
-  if (sampleRate < 0 || sampleRate > 1) {
-    throw new Error(`Sample rate should be >= 0 && <= 1, got ${sampleRate}`);
-  }
-  if (sampleRate < 1 && blockOnHighQueryCost) {
-    throw new Error(
-      "Sample rate cannot be < 1 if blockOnHighQuery cost is enabled"
-    );
-  }
-  const cachedCosts = new LruMap<string, number>(queryCacheSize);
-  return {
-    async requestDidStart() {
-      return {
-        async executionDidStart({ request, document }) {
-          if (Math.random() > sampleRate) {
-            return;
-          }
-          let cost: Maybe<number> = 0;
-          try {
-            cost = getCost(
-              schema,
-              document,
-              request,
-              directiveCostConfig,
-              onCacheHit,
-              onCacheMiss,
-              onCostCalculated,
-              cachedCosts
-            );
-          } catch (e) {
-            onError(e as Error);
-            return;
-          }
-          if (blockOnHighQueryCost && cost > costThreshold) {
-            onRequestBlocked(cost, document);
-            throw new QueryCostTooHighError(cost, costThreshold);
-          }
-        },
-      };
-    },
-  };
-}
@@ -0,0 +1,55 @@
+import { GraphQLError } from "graphql";
+
+import type { QueryShape } from "./query-cost";
+import type { Maybe } from "./util";
+import { isSome } from "./util";
+
+export const QUERY_LIMIT_EXCEEDED = "QUERY_LIMIT_EXCEEDED";
+
+// limits on the shape of documents, checked alongside their cost. Depth limits miss the cost of
+// paginated lists, but they still catch deeply nested and heavily aliased documents cheaply.
+export type QueryLimits = {
+  maxDepth?: Maybe<number>;
+  maxAliases?: Maybe<number>;
+  maxRootFields?: Maybe<number>;
+};
+
+// surfaced to clients like QueryCostTooHighError, with the limit that was exceeded in its extensions.
+export class QueryLimitExceededError extends GraphQLError {
+  public constructor(
+    // a limit of QueryLimits, or the maxSelections of the cost options.
+    limit: keyof QueryLimits | "maxSelections",
+    requested: number,
+    maximum: number
+  ) {
+    super(
+      `Blocked request because ${limit} was exceeded. Requested: ${requested}, maximum ${maximum}`,
+      {
+        extensions: {
+          code: QUERY_LIMIT_EXCEEDED,
+          limit: { name: limit, requested, maximum },
+        },
+      }
+    );
+  }
+}
+
+const measures: ReadonlyArray<[keyof QueryLimits, keyof QueryShape]> = [
+  ["maxDepth", "depth"],
+  ["maxAliases", "aliases"],
+  ["maxRootFields", "rootFields"],
+];
+
+// the error for the first limit a document exceeds, if any.
+export function exceededQueryLimit(
+  shape: QueryShape,
+  limits: Maybe<QueryLimits>
+): Maybe<QueryLimitExceededError> {
+  for (const [limit, measure] of measures) {
+    const maximum = limits?.[limit];
+    if (isSome(maximum) && shape[measure] > maximum) {
+      return new QueryLimitExceededError(limit, shape[measure], maximum);
+    }
+  }
+  return undefined;
+}
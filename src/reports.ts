@@ -0,0 +1,125 @@
+import { escape } from "lodash";
+
+import type {
+  AnalysisResult,
+  OperationCost,
+  OperationError,
+} from "./analysis";
+import { passesThreshold } from "./analysis";
+import { QUERY_COST_TOO_HIGH } from "./query-cost";
+import type { Maybe } from "./util";
+import { isSome } from "./util";
+
+export function operationLabel(operationName: Maybe<string>): string {
+  return operationName ?? "<anonymous>";
+}
+
+// the analysis as JSON, for other tools to process.
+export function jsonReport(result: AnalysisResult): string {
+  return JSON.stringify(
+    {
+      threshold: result.threshold,
+      passed: passesThreshold(result),
+      operations: result.costs.map(
+        ({ file, operationName, cost, overThreshold, breakdown }) => ({
+          operationName: operationName ?? null,
+          file,
+          cost,
+          overThreshold,
+          breakdown,
+        })
+      ),
+      errors: result.errors.map(({ file, operationName, errors }) => ({
+        operationName: operationName ?? null,
+        file,
+        errors,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+// the analysis as a Markdown table, for pull request comments. Operations that fail come first.
+export function markdownReport(result: AnalysisResult): string {
+  const row = (cells: readonly string[]) =>
+    `| ${cells.map(markdownCell).join(" | ")} |`;
+  const costs = [...result.costs].sort(
+    (a, b) => Number(b.overThreshold) - Number(a.overThreshold) || b.cost - a.cost
+  );
+  return [
+    `${result.costs.filter(({ overThreshold }) => overThreshold).length} of ${
+      result.costs.length + result.errors.length
+    } operations over the cost threshold of ${result.threshold}, ${
+      result.errors.length
+    } could not be costed.`,
+    "",
+    row(["Operation", "File", "Cost", "Status"]),
+    "| --- | --- | ---: | --- |",
+    ...result.errors.map(({ file, operationName, errors }) =>
+      row([
+        operationLabel(operationName),
+        `\`${file}\``,
+        "",
+        `error: ${errors.join(", ")}`,
+      ])
+    ),
+    ...costs.map(({ file, operationName, cost, overThreshold }) =>
+      row([
+        operationLabel(operationName),
+        `\`${file}\``,
+        `${cost}`,
+        overThreshold ? "over threshold" : "ok",
+      ])
+    ),
+  ].join("\n");
+}
+
+function junitTestCase(
+  { file, operationName }: OperationCost | OperationError,
+  failure: Maybe<string>
+): string {
+  const testCase = `<testcase classname="${escape(file)}" name="${escape(
+    operationLabel(operationName)
+  )}"`;
+  return isSome(failure)
+    ? `    ${testCase}>\n      ${failure}\n    </testcase>`
+    : `    ${testCase}/>`;
+}
+
+// the analysis as JUnit XML, so that operations over the threshold show up as failing tests in CI.
+// operations that could not be costed are errors rather than failures.
+export function junitReport(result: AnalysisResult): string {
+  const failures = result.costs.filter(({ overThreshold }) => overThreshold);
+  const counts = `tests="${
+    result.costs.length + result.errors.length
+  }" failures="${failures.length}" errors="${result.errors.length}"`;
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="graphql-query-cost" ${counts}>`,
+    `  <testsuite name="graphql-query-cost" ${counts}>`,
+    ...result.costs.map((operation) =>
+      junitTestCase(
+        operation,
+        operation.overThreshold
+          ? `<failure type="${QUERY_COST_TOO_HIGH}" message="${escape(
+              `Cost ${operation.cost} is over the threshold of ${result.threshold}`
+            )}"/>`
+          : undefined
+      )
+    ),
+    ...result.errors.map((operation) =>
+      junitTestCase(
+        operation,
+        `<error message="${escape(operation.errors.join(", "))}"/>`
+      )
+    ),
+    `  </testsuite>`,
+    `</testsuites>`,
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,39 @@
+export type Maybe<T> = T | null | undefined;
+
+export function isSome<T>(arg: Maybe<T>): arg is NonNullable<T> {
+  return arg !== null && arg !== undefined;
+}
+
+// Defines a capped map with least-recently-used eviction strategy
+// key idea is from here: https://medium.com/sparkles-blog/a-simple-lru-cache-in-typescript-cba0d9807c40
+// javascript maps retain insertion order.
+export class LruMap<U, V> {
+  private readonly maxCapacity: number;
+  private readonly backingMap: Map<U, V>;
+
+  constructor(maxCapacity: number) {
+    this.maxCapacity = maxCapacity;
+    this.backingMap = new Map<U, V>();
+  }
+
+  public get(key: U): Maybe<V> {
+    const entry = this.backingMap.get(key);
+    if (isSome(entry)) {
+      // peek the entry, re-insert for LRU strategy
+      this.backingMap.delete(key);
+      this.backingMap.set(key, entry);
+    }
+    return entry;
+  }
+
+  public set(key: U, value: V) {
+    if (this.backingMap.size >= this.maxCapacity) {
+      const keyToDelete = this.backingMap.keys().next().value;
+      this.backingMap.delete(keyToDelete);
+    }
+    this.backingMap.set(key, value);
+  }
+}
+
+// the variables of a request, by name.
+export type VariableValues = { [name: string]: unknown };
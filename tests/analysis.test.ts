@@ -0,0 +1,211 @@
+import assert from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { buildSchema, graphqlSync, getIntrospectionQuery } from "graphql";
+import mocha from "mocha";
+
+import {
+  analyzeOperations,
+  loadOperations,
+  loadSchema,
+  passesThreshold,
+} from "../src/analysis";
+import { run } from "../src/cli";
+
+assert(mocha);
+
+const fixtures = path.join(__dirname, "fixtures");
+const schemaPath = path.join(fixtures, "schema.graphql");
+const itemsPath = path.join(fixtures, "client/items.graphql");
+const invalidPath = path.join(fixtures, "invalid/invalid.graphql");
+const configPath = path.join(fixtures, "config.js");
+
+describe("analysis", () => {
+  it("loads SDL with the cost directives", async () => {
+    const schema = await loadSchema(schemaPath);
+    assert.ok(schema.getDirective("cost"));
+  });
+
+  it("adds only the cost directives SDL doesn't define", async () => {
+    const file = path.join(os.tmpdir(), `query-cost-${process.pid}.graphql`);
+    fs.writeFileSync(
+      file,
+      `directive @listSize(assumedSize: Int) on FIELD_DEFINITION
+      type Query { hello: [String!] @listSize(assumedSize: 10) }`
+    );
+    try {
+      const schema = await loadSchema(file);
+      assert.ok(schema.getDirective("cost"));
+      assert.deepStrictEqual(
+        schema.getDirective("listSize")?.args.map(({ name }) => name),
+        ["assumedSize"]
+      );
+    } finally {
+      fs.unlinkSync(file);
+    }
+  });
+
+  it("loads introspection JSON", async () => {
+    const introspection = graphqlSync({
+      schema: buildSchema(`type Query { hello: String }`),
+      source: getIntrospectionQuery(),
+    });
+    const file = path.join(os.tmpdir(), `query-cost-${process.pid}.json`);
+    fs.writeFileSync(file, JSON.stringify(introspection));
+    try {
+      const schema = await loadSchema(file);
+      assert.deepStrictEqual(
+        Object.keys(schema.getQueryType()?.getFields() ?? {}),
+        ["hello"]
+      );
+    } finally {
+      fs.unlinkSync(file);
+    }
+  });
+
+  it("costs operations with fragments of other files", async () => {
+    const schema = await loadSchema(schemaPath);
+    const operations = await loadOperations([
+      path.join(fixtures, "client/*.graphql"),
+    ]);
+    const result = analyzeOperations(schema, operations, {
+      costThreshold: 50,
+      variables: { count: 20 },
+    });
+    assert.deepStrictEqual(
+      result.costs.map(({ file, operationName, cost, overThreshold }) => ({
+        file,
+        operationName,
+        cost,
+        overThreshold,
+      })),
+      [
+        {
+          file: itemsPath,
+          operationName: "cheapItems",
+          cost: 3,
+          overThreshold: false,
+        },
+        {
+          file: itemsPath,
+          operationName: "expensiveItems",
+          cost: 121,
+          overThreshold: true,
+        },
+      ]
+    );
+    // items = 1
+    // name  = 1 * 20
+    // price = 5 * 20
+    assert.deepStrictEqual(result.errors, []);
+    assert.deepStrictEqual(passesThreshold(result), false);
+  });
+
+  it("reports operations that are not valid", async () => {
+    const schema = await loadSchema(schemaPath);
+    const operations = await loadOperations([invalidPath]);
+    const result = analyzeOperations(schema, operations, {
+      costThreshold: 50,
+    });
+    assert.deepStrictEqual(result.costs, []);
+    assert.deepStrictEqual(result.errors, [
+      {
+        file: invalidPath,
+        operationName: "invalid",
+        errors: ['Cannot query field "unknown" on type "Item".'],
+      },
+    ]);
+    assert.deepStrictEqual(passesThreshold(result), false);
+  });
+});
+
+describe("cli", () => {
+  const operations = path.join(fixtures, "client/*.graphql");
+  const runCli = async (...args: string[]) => {
+    const logs: string[] = [];
+    const errors: string[] = [];
+    const code = await run(["--schema", schemaPath, ...args], {
+      log: (message) => logs.push(message),
+      error: (message) => errors.push(message),
+    });
+    return { code, logs, errors };
+  };
+
+  it("succeeds when operations are under the threshold", async () => {
+    const { code, logs, errors } = await runCli(
+      "--config",
+      configPath,
+      operations
+    );
+    assert.deepStrictEqual(code, 0);
+    assert.deepStrictEqual(logs, [
+      `${itemsPath}: cheapItems costs 3`,
+      `${itemsPath}: expensiveItems costs 61`,
+    ]);
+    assert.deepStrictEqual(errors, []);
+  });
+
+  it("fails when an operation is over the threshold", async () => {
+    const { code, errors } = await runCli(
+      "--config",
+      configPath,
+      "--threshold",
+      "50",
+      operations
+    );
+    assert.deepStrictEqual(code, 1);
+    assert.deepStrictEqual(errors, [
+      `${itemsPath}: expensiveItems costs 61, over the threshold of 50`,
+    ]);
+  });
+
+  it("fails when an operation can't be costed", async () => {
+    const { code, errors } = await runCli("--threshold", "50", invalidPath);
+    assert.deepStrictEqual(code, 1);
+    assert.deepStrictEqual(errors, [
+      `${invalidPath}: invalid could not be costed: Cannot query field "unknown" on type "Item".`,
+    ]);
+  });
+
+  it("writes reports", async () => {
+    const file = path.join(os.tmpdir(), `query-cost-${process.pid}.xml`);
+    try {
+      await runCli("--threshold", "50", "--junit", file, operations);
+      assert.ok(
+        fs
+          .readFileSync(file, "utf8")
+          .includes(`tests="2" failures="1" errors="0"`)
+      );
+    } finally {
+      fs.unlinkSync(file);
+    }
+  });
+
+  it("compares costs with a base schema", async () => {
+    const { code, logs, errors } = await runCli(
+      "--threshold",
+      "50",
+      "--base-schema",
+      path.join(fixtures, "base-schema.graphql"),
+      operations
+    );
+    assert.deepStrictEqual(code, 1);
+    assert.deepStrictEqual(logs, []);
+    assert.deepStrictEqual(errors, [
+      `${itemsPath}: expensiveItems 21 -> 61 (+40), over the threshold of 50`,
+      `  items.price 10 -> 50 (+40)`,
+    ]);
+  });
+
+  it("fails without a threshold", async () => {
+    const { code } = await runCli(operations);
+    assert.deepStrictEqual(code, 1);
+  });
+
+  it("fails without operations", async () => {
+    const { code } = await runCli("--threshold", "50");
+    assert.deepStrictEqual(code, 1);
+  });
+});
@@ -0,0 +1,117 @@
+import assert from "assert";
+import { createHash } from "crypto";
+import mocha from "mocha";
+
+import { COST_BUDGET_EXCEEDED } from "../src/cost-budget";
+import { QUERY_COST_TOO_HIGH } from "../src/query-cost";
+import type { Context } from "./fixtures/items";
+import { runApollo4 as run } from "./fixtures/items";
+
+assert(mocha);
+
+describe("query cost apollo server 4 plugin", () => {
+  it("executes cheap operations", async () => {
+    const { result } = await run({}, `query { items(first: 2) { name } }`);
+    assert.deepStrictEqual(result.errors, undefined);
+  });
+
+  it("blocks expensive operations with a client error", async () => {
+    const { http, result } = await run(
+      {},
+      `query { items(first: 50) { name } }`
+    );
+    assert.deepStrictEqual(http.status, 400);
+    assert.deepStrictEqual(result.errors?.[0].extensions, {
+      code: QUERY_COST_TOO_HIGH,
+      cost: { requested: 51, maximum: 20 },
+    });
+  });
+
+  it("rejects requests over budget as too many requests", async () => {
+    const options = {
+      costBudget: {
+        capacity: 5,
+        windowMs: 60_000,
+        identifyCaller: (context: Context) => context.user,
+      },
+    };
+    const { http, result } = await run(
+      options,
+      `query { items(first: 10) { name } }`,
+      { user: "a" }
+    );
+    assert.deepStrictEqual(http.status, 429);
+    assert.deepStrictEqual(
+      result.errors?.[0].extensions?.code,
+      COST_BUDGET_EXCEEDED
+    );
+  });
+
+  it("reports the cost in the response", async () => {
+    const { result } = await run(
+      { reportCostInResponse: true },
+      `query { items(first: 2) { name } }`
+    );
+    assert.deepStrictEqual(result.extensions, {
+      cost: { requested: 3, maximum: 20, cached: false },
+    });
+  });
+
+  it("computes the threshold from the request context", async () => {
+    const options = {
+      costThreshold: (context: Context) =>
+        context.user === "admin" ? 100 : 20,
+    };
+    const query = `query { items(first: 50) { name } }`;
+    const { result } = await run(options, query, { user: "admin" });
+    assert.deepStrictEqual(result.errors, undefined);
+    const { http } = await run(options, query, { user: "a" });
+    assert.deepStrictEqual(http.status, 400);
+  });
+
+  it("computes the block threshold from the request context", async () => {
+    const options = {
+      blockThreshold: (context: Context) =>
+        context.user === "admin" ? 100 : 20,
+    };
+    const query = `query { items(first: 50) { name } }`;
+    const { result } = await run(options, query, { user: "admin" });
+    assert.deepStrictEqual(result.errors, undefined);
+    const { http } = await run(options, query, { user: "a" });
+    assert.deepStrictEqual(http.status, 400);
+  });
+
+  it("warns above the cost threshold when a block threshold is set", async () => {
+    const options = {
+      costThreshold: (context: Context) =>
+        context.user === "admin" ? 100 : 20,
+      blockThreshold: 200,
+    };
+    const query = `query { items(first: 50) { name } }`;
+    const { result } = await run(options, query, { user: "a" });
+    assert.deepStrictEqual(result.extensions?.costWarning, {
+      message: "Calculated cost 51 is over the warning threshold of 20",
+      requested: 51,
+      threshold: 20,
+    });
+    const admin = await run(options, query, { user: "admin" });
+    assert.deepStrictEqual(admin.result.extensions, undefined);
+  });
+
+  it("doesn't block allowlisted queries", async () => {
+    const query = `query { items(first: 50) { name } }`;
+    const { result } = await run(
+      {
+        reportCostInResponse: true,
+        allowlist: {
+          queryHashes: [createHash("sha256").update(query).digest("hex")],
+        },
+      },
+      query
+    );
+    assert.deepStrictEqual(result.errors, undefined);
+    assert.deepStrictEqual(result.extensions, {
+      cost: { requested: 51, maximum: 20, cached: false },
+    });
+  });
+});
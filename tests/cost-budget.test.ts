@@ -0,0 +1,63 @@
+import assert from "assert";
+import mocha from "mocha";
+
+import {
+  consumeFromBucket,
+  InMemoryCostBudgetStore,
+} from "../src/cost-budget";
+
+assert(mocha);
+
+const budget = { capacity: 100, windowMs: 1000 };
+
+describe("cost budget buckets", () => {
+  it("starts with a full budget", () => {
+    const { bucket, outcome } = consumeFromBucket(undefined, 30, budget, 0);
+    assert.deepStrictEqual(bucket, { tokens: 70, updatedAt: 0 });
+    assert.deepStrictEqual(outcome, {
+      allowed: true,
+      remaining: 70,
+      retryAfterMs: 0,
+    });
+  });
+  it("rejects costs over the remaining budget with when to retry", () => {
+    const { bucket, outcome } = consumeFromBucket(
+      { tokens: 10, updatedAt: 0 },
+      30,
+      budget,
+      0
+    );
+    assert.deepStrictEqual(bucket, { tokens: 10, updatedAt: 0 });
+    assert.deepStrictEqual(outcome, {
+      allowed: false,
+      remaining: 10,
+      retryAfterMs: 200,
+    });
+  });
+  it("refills over time up to capacity", () => {
+    assert.deepStrictEqual(
+      consumeFromBucket({ tokens: 10, updatedAt: 0 }, 30, budget, 500).bucket,
+      { tokens: 30, updatedAt: 500 }
+    );
+    assert.deepStrictEqual(
+      consumeFromBucket({ tokens: 10, updatedAt: 0 }, 30, budget, 5000).bucket,
+      { tokens: 70, updatedAt: 5000 }
+    );
+  });
+  it("never allows costs over capacity", () => {
+    assert.deepStrictEqual(
+      consumeFromBucket(undefined, 101, budget, 0).outcome.retryAfterMs,
+      null
+    );
+  });
+});
+
+describe("in memory cost budget store", () => {
+  it("keeps a budget per caller", async () => {
+    const store = new InMemoryCostBudgetStore();
+    assert((await store.consume("a", 60, budget, 0)).allowed);
+    assert(!(await store.consume("a", 60, budget, 0)).allowed);
+    assert((await store.consume("b", 60, budget, 0)).allowed);
+    assert((await store.consume("a", 60, budget, 200)).allowed);
+  });
+});
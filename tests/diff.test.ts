@@ -0,0 +1,153 @@
+import assert from "assert";
+import { buildSchema, parse } from "graphql";
+import mocha from "mocha";
+
+import type { OperationSource } from "../src/analysis";
+import { analyzeOperations } from "../src/analysis";
+import { diffCosts, passesDiff } from "../src/diff";
+import { costDirectiveTypeDefs } from "../src/query-cost";
+
+assert(mocha);
+
+const schema = (priceWeight: number) =>
+  buildSchema(`
+${costDirectiveTypeDefs}
+
+type Item {
+  name: String!
+  price: Int! @cost(weight: ${priceWeight})
+}
+
+type Query {
+  items(first: Int): [Item!]!
+  item: Item
+}`);
+
+const operation = (file: string, query: string): OperationSource => {
+  const document = parse(query);
+  const [definition] = document.definitions;
+  return {
+    file,
+    operationName:
+      definition.kind === "OperationDefinition"
+        ? definition.name?.value
+        : undefined,
+    document,
+  };
+};
+
+describe("cost diff", () => {
+  const operations = [
+    operation("items.graphql", `query items { items(first: 10) { name price } }`),
+    operation("item.graphql", `query item { item { name } }`),
+  ];
+
+  it("diffs costs against two schemas", () => {
+    const diff = diffCosts(
+      analyzeOperations(schema(1), operations, { costThreshold: 50 }),
+      analyzeOperations(schema(5), operations, { costThreshold: 50 })
+    );
+    assert.deepStrictEqual(diff, {
+      threshold: 50,
+      operations: [
+        {
+          file: "items.graphql",
+          operationName: "items",
+          before: 21,
+          after: 61,
+          delta: 40,
+          newlyOverThreshold: true,
+          fields: [{ path: "items.price", before: 10, after: 50, delta: 40 }],
+        },
+      ],
+      errors: [],
+    });
+    assert.deepStrictEqual(passesDiff(diff), false);
+  });
+
+  it("diffs costs of two versions of operations", () => {
+    const diff = diffCosts(
+      analyzeOperations(schema(1), operations, { costThreshold: 50 }),
+      analyzeOperations(
+        schema(1),
+        [
+          operation(
+            "items.graphql",
+            `query items { items(first: 5) { name } }`
+          ),
+          operation(
+            "prices.graphql",
+            `query prices { items(first: 10) { price } }`
+          ),
+        ],
+        { costThreshold: 50 }
+      ),
+      1
+    );
+    assert.deepStrictEqual(
+      diff.operations.map(({ operationName, before, after, delta, fields }) => ({
+        operationName,
+        before,
+        after,
+        delta,
+        fields,
+      })),
+      [
+        {
+          operationName: "items",
+          before: 21,
+          after: 6,
+          delta: -15,
+          fields: [{ path: "items.price", before: 10, after: 0, delta: -10 }],
+        },
+        {
+          operationName: "prices",
+          before: null,
+          after: 11,
+          delta: 11,
+          fields: [{ path: "items.price", before: 0, after: 10, delta: 10 }],
+        },
+        {
+          operationName: "item",
+          before: 2,
+          after: null,
+          delta: -2,
+          fields: [{ path: "item", before: 1, after: 0, delta: -1 }],
+        },
+      ]
+    );
+    assert.deepStrictEqual(passesDiff(diff), true);
+  });
+
+  it("doesn't fail on operations that were already over the threshold", () => {
+    const diff = diffCosts(
+      analyzeOperations(schema(5), operations, { costThreshold: 50 }),
+      analyzeOperations(schema(6), operations, { costThreshold: 50 })
+    );
+    assert.deepStrictEqual(diff.operations[0].delta, 10);
+    assert.deepStrictEqual(passesDiff(diff), true);
+  });
+
+  it("reports operations sharing a name instead of diffing them", () => {
+    const duplicated = [
+      ...operations,
+      operation("other.graphql", `query items { item { name price } }`),
+    ];
+    const diff = diffCosts(
+      analyzeOperations(schema(1), duplicated, { costThreshold: 50 }),
+      analyzeOperations(schema(5), duplicated, { costThreshold: 50 })
+    );
+    assert.deepStrictEqual(diff.operations, []);
+    assert.deepStrictEqual(
+      diff.errors,
+      ["items.graphql", "other.graphql"].map((file) => ({
+        file,
+        operationName: "items",
+        errors: [
+          "another operation is named items, so its cost can't be compared",
+        ],
+      }))
+    );
+    assert.deepStrictEqual(passesDiff(diff), false);
+  });
+});
@@ -0,0 +1,73 @@
+import assert from "assert";
+import mocha from "mocha";
+
+import { QUERY_COST_TOO_HIGH } from "../src/query-cost";
+import { runEnvelop as run } from "./fixtures/items";
+
+assert(mocha);
+
+describe("query cost envelop plugin", () => {
+  const options = { costThreshold: 20, blockOnHighQueryCost: true };
+
+  it("executes cheap operations", async () => {
+    const result = await run(options, `query { items(first: 2) { name } }`);
+    assert.deepStrictEqual(result.errors, undefined);
+    assert.deepStrictEqual(JSON.parse(JSON.stringify(result.data)), {
+      items: [{ name: "0" }, { name: "1" }],
+    });
+  });
+
+  it("blocks expensive operations", async () => {
+    let blockedCost = 0;
+    const result = await run(
+      {
+        ...options,
+        onRequestBlocked: (cost, document, explain) => {
+          blockedCost = explain().cost;
+        },
+      },
+      `query { items(first: 50) { name } }`
+    );
+    assert.deepStrictEqual(result.data, undefined);
+    assert.deepStrictEqual(
+      result.errors?.map((e) => e.extensions.code),
+      [QUERY_COST_TOO_HIGH]
+    );
+    assert.deepStrictEqual(blockedCost, 51);
+  });
+
+  it("reports the cost in the result", async () => {
+    const result = await run(
+      { ...options, reportCostInResponse: true },
+      `query { items(first: 2) { name } }`
+    );
+    assert.deepStrictEqual(result.extensions, {
+      cost: { requested: 3, maximum: 20, cached: false },
+    });
+  });
+
+  it("takes the options of the server plugins", async () => {
+    const warnings: number[] = [];
+    const warned = await run(
+      {
+        ...options,
+        warnThreshold: 5,
+        onThresholdWarning: (cost) => warnings.push(cost),
+      },
+      `query { items(first: 10) { name } }`
+    );
+    assert.deepStrictEqual(warnings, [11]);
+    assert.deepStrictEqual(warned.extensions, {
+      costWarning: {
+        message: "Calculated cost 11 is over the warning threshold of 5",
+        requested: 11,
+        threshold: 5,
+      },
+    });
+    const allowlisted = await run(
+      { ...options, allowlist: { operationNames: ["export"] } },
+      `query export { items(first: 50) { name } }`
+    );
+    assert.deepStrictEqual(allowlisted.errors, undefined);
+  });
+});
@@ -0,0 +1,71 @@
+import assert from "assert";
+import { ApolloServer } from "@apollo/server";
+import { envelop, useEngine, useSchema } from "@envelop/core";
+import type { ExecutionResult } from "graphql";
+import { buildSchema, execute, parse, subscribe, validate } from "graphql";
+
+import { queryCostApollo4 } from "../../src/apollo-server-4-plugin";
+import type { EnvelopQueryCostOptions } from "../../src/envelop-plugin";
+import { useQueryCost } from "../../src/envelop-plugin";
+import type { QueryCostPluginOptions } from "../../src/query-cost-enforcer";
+
+// a paginated list, shared by the tests of the calculator, the validation rule and the server plugins.
+export const schema = buildSchema(`
+type Item {
+  name: String!
+}
+
+type Query {
+  items(first: Int, last: Int, after: String): [Item!]!
+}`);
+
+export const rootValue = {
+  items: ({ first }: { first: number }) =>
+    Array.from({ length: first }, (_, i) => ({ name: `${i}` })),
+};
+
+export type Context = { user?: string };
+
+export async function runEnvelop(
+  options: EnvelopQueryCostOptions,
+  query: string
+): Promise<ExecutionResult> {
+  const getEnveloped = envelop({
+    plugins: [
+      useEngine({ parse, validate, execute, subscribe }),
+      useSchema(schema),
+      useQueryCost(options),
+    ],
+  });
+  const { execute: run, contextFactory } = getEnveloped();
+  return (await run({
+    schema,
+    document: parse(query),
+    rootValue,
+    contextValue: await contextFactory(),
+  })) as ExecutionResult;
+}
+
+export async function runApollo4(
+  options: Partial<QueryCostPluginOptions<Context>>,
+  query: string,
+  contextValue: Context = {}
+) {
+  const server = new ApolloServer<Context>({
+    schema,
+    rootValue,
+    includeStacktraceInErrorResponses: false,
+    plugins: [
+      queryCostApollo4(schema, {
+        costThreshold: 20,
+        sampleRate: 1,
+        blockOnHighQueryCost: true,
+        queryCacheSize: 10,
+        ...options,
+      }),
+    ],
+  });
+  const response = await server.executeOperation({ query }, { contextValue });
+  assert(response.body.kind === "single");
+  return { http: response.http, result: response.body.singleResult };
+}
@@ -0,0 +1,92 @@
+import assert from "assert";
+import { parse } from "graphql";
+import mocha from "mocha";
+
+import { InvalidDocumentError } from "../src/query-cost";
+import { QueryCostCalculator } from "../src/query-cost-calculator";
+import { schema } from "./fixtures/items";
+
+assert(mocha);
+
+describe("query cost calculator", () => {
+  const shape = { depth: 2, aliases: 0, rootFields: 1 };
+  const document = parse(
+    `query items($first: Int, $after: String) { items(first: $first, after: $after) { name } }`
+  );
+
+  it("costs documents", () => {
+    const calculator = new QueryCostCalculator(schema);
+    assert.deepStrictEqual(calculator.cost(document, { first: 10 }), {
+      cost: 11,
+      shape,
+      cached: false,
+    });
+    assert.deepStrictEqual(calculator.explain(document, { first: 10 }).cost, 11);
+  });
+
+  it("caches costs by the variables they depend on", () => {
+    const events: string[] = [];
+    const calculator = new QueryCostCalculator(schema, {
+      onCacheHit: () => events.push("hit"),
+      onCacheMiss: () => events.push("miss"),
+      onCostCalculated: (cost) => events.push(`calculated ${cost}`),
+    });
+    calculator.cost(document, { first: 10, after: "a" });
+    assert.deepStrictEqual(calculator.cost(document, { first: 10, after: "b" }), {
+      cost: 11,
+      shape,
+      cached: true,
+    });
+    assert.deepStrictEqual(calculator.cost(document, { first: 20, after: "b" }), {
+      cost: 21,
+      shape,
+      cached: false,
+    });
+    assert.deepStrictEqual(events, [
+      "miss",
+      "calculated 11",
+      "hit",
+      "miss",
+      "calculated 21",
+    ]);
+  });
+
+  it("doesn't cache costs of requests with invalid variables", () => {
+    const calculator = new QueryCostCalculator(schema);
+    const withOther = parse(
+      `query items($first: Int, $last: Int) { items(first: $first) { name } other: items(last: $last) { name } }`
+    );
+    assert.throws(
+      () => calculator.cost(withOther, { first: 100000, last: "bad" }),
+      InvalidDocumentError
+    );
+    assert.deepStrictEqual(calculator.cost(withOther, { first: 100000, last: 1 }), {
+      cost: 100003,
+      shape: { depth: 2, aliases: 1, rootFields: 1 },
+      cached: false,
+    });
+  });
+
+  it("rejects negative type frequencies", () => {
+    assert.throws(
+      () =>
+        new QueryCostCalculator(schema, {
+          typeCostConfig: { typeFrequencies: new Map([["Item", -1]]) },
+        }),
+      /Type frequency should be >= 0, got -1 for Item/
+    );
+  });
+
+  it("costs documents without a source every time", () => {
+    const calculator = new QueryCostCalculator(schema);
+    const withoutSource = parse(`query { items(first: 5) { name } }`, {
+      noLocation: true,
+    });
+    calculator.cost(withoutSource);
+    assert.deepStrictEqual(calculator.cost(withoutSource), {
+      cost: 6,
+      shape,
+      cached: false,
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import assert from "assert";
+import { parse, specifiedRules, validate } from "graphql";
+import mocha from "mocha";
+
+import { QUERY_COST_TOO_HIGH } from "../src/query-cost";
+import { createQueryCostRule } from "../src/query-cost-rule";
+import { QUERY_LIMIT_EXCEEDED } from "../src/query-limits";
+import { schema } from "./fixtures/items";
+
+assert(mocha);
+
+describe("query cost rule", () => {
+  const query = parse(`query items($first: Int) { items(first: $first) { name } }`);
+
+  it("accepts documents under the threshold", () => {
+    const costs: number[] = [];
+    const errors = validate(schema, query, [
+      ...specifiedRules,
+      createQueryCostRule({
+        costThreshold: 20,
+        variables: { first: 10 },
+        onCostCalculated: (cost) => costs.push(cost),
+      }),
+    ]);
+    assert.deepStrictEqual(errors, []);
+    assert.deepStrictEqual(costs, [11]);
+  });
+
+  it("reports documents over the threshold", () => {
+    const errors = validate(schema, query, [
+      createQueryCostRule({
+        costThreshold: 20,
+        variables: { first: 50 },
+        topFieldsInError: 1,
+      }),
+    ]);
+    assert.deepStrictEqual(
+      errors.map((e) => e.message),
+      [
+        "Blocked request because calculated cost too high. Calculated: 51, threshold 20",
+      ]
+    );
+    assert.deepStrictEqual(errors[0].extensions, {
+      code: QUERY_COST_TOO_HIGH,
+      cost: {
+        requested: 51,
+        maximum: 20,
+        topFields: [{ path: "items.name", cost: 50 }],
+      },
+    });
+  });
+
+  it("reports documents over a limit", () => {
+    const errors = validate(schema, query, [
+      createQueryCostRule({
+        costThreshold: 20,
+        variables: { first: 1 },
+        queryLimits: { maxDepth: 1 },
+      }),
+    ]);
+    assert.deepStrictEqual(
+      errors.map((e) => e.extensions.code),
+      [QUERY_LIMIT_EXCEEDED]
+    );
+  });
+
+  it("costs the selected operation", () => {
+    const document = parse(`
+      query few { items(first: 1) { name } }
+      query many { items(first: 100) { name } }
+    `);
+    const rule = (operationName: string) =>
+      createQueryCostRule({ costThreshold: 20, operationName });
+    assert.deepStrictEqual(validate(schema, document, [rule("few")]).length, 0);
+    assert.deepStrictEqual(validate(schema, document, [rule("many")]).length, 1);
+  });
+
+  it("reports valid documents that can't be costed", () => {
+    const costErrors: Error[] = [];
+    const errors = validate(
+      schema,
+      parse(`query { items(first: 1000, last: 1000) { name } }`),
+      [
+        ...specifiedRules,
+        createQueryCostRule({
+          costThreshold: 20,
+          onError: (e) => costErrors.push(e),
+        }),
+      ]
+    );
+    assert.deepStrictEqual(
+      errors.map((e) => e.message),
+      [
+        "Cannot calculate cost: Received multiple slicing arguments (first, last); cannot cost: items",
+      ]
+    );
+    assert.deepStrictEqual(costErrors.length, 1);
+  });
+
+  it("costs connections sliced by one of first and last", () => {
+    const errors = validate(
+      schema,
+      parse(
+        `query items($first: Int, $last: Int) { items(first: $first, last: $last) { name } }`
+      ),
+      [
+        ...specifiedRules,
+        createQueryCostRule({ costThreshold: 20, variables: { first: 10 } }),
+      ]
+    );
+    assert.deepStrictEqual(errors, []);
+  });
+
+  it("leaves documents that can't be costed to other rules", () => {
+    const errors = validate(schema, query, [
+      createQueryCostRule({ costThreshold: 20, operationName: "unknown" }),
+    ]);
+    assert.deepStrictEqual(errors, []);
+  });
+});
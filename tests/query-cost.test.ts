@@ -1,10 +1,35 @@
 import assert from "assert";
 import type { VariableValues } from "apollo-server-core";
-import { buildSchema } from "graphql";
+import type {
+  ApolloServerPlugin,
+  GraphQLRequestContext,
+  GraphQLRequestContextDidResolveOperation,
+  GraphQLRequestContextWillSendResponse,
+  GraphQLResponse,
+} from "apollo-server-plugin-base";
+import { buildSchema, GraphQLError, parse } from "graphql";
 import mocha from "mocha";
 
 import type { Maybe } from "../src/query-cost";
-import { costForTesting as cost, cacheKey } from "../src/query-cost";
+import {
+  COST_BUDGET_EXCEEDED,
+  CostBudgetExceededError,
+} from "../src/cost-budget";
+import queryCost from "../src/apollo-plugin";
+import {
+  QUERY_LIMIT_EXCEEDED,
+  QueryLimitExceededError,
+} from "../src/query-limits";
+import {
+  costForTesting as cost,
+  cacheKey,
+  costDirectiveTypeDefs,
+  costVariables,
+  explainCost,
+  QUERY_COST_TOO_HIGH,
+  QueryCostTooHighError,
+  topFieldCosts,
+} from "../src/query-cost";
 
 assert(mocha);
 
@@ -73,6 +98,7 @@ type Query {
 type Test = {
   query: string;
   variables?: Maybe<VariableValues>;
+  operationName?: Maybe<string>;
   cost?: Maybe<number>;
   expectError?: Maybe<boolean>;
 };
@@ -89,7 +115,7 @@ const tests: Test[] = [
     query: `subscription helloQuery {
       hello
     }`,
-    expectError: true,
+    cost: 1,
   },
   {
     query: `query helloQuery {
@@ -123,6 +149,39 @@ const tests: Test[] = [
     }`,
     cost: 12,
   },
+  {
+    query: `query helloQuery {
+      hello
+    }
+    mutation helloQuery2 {
+      hello
+    }`,
+    operationName: "helloQuery2",
+    cost: 11,
+    // only the executed operation is costed.
+  },
+  {
+    query: `query helloQuery {
+      resources(first: 10) {
+        ...S
+      }
+    }
+    query helloQuery2 {
+      hello
+    }
+    fragment S on ResourceConn {
+      str
+    }`,
+    operationName: "helloQuery",
+    cost: 11,
+  },
+  {
+    query: `query helloQuery {
+      hello
+    }`,
+    operationName: "helloQuery2",
+    expectError: true,
+  },
   {
     query: `query helloQuery {
       hello
@@ -413,6 +472,123 @@ const tests: Test[] = [
       `,
     cost: 11001,
   },
+  {
+    query: `
+      query helloQuery {
+        resources(first: 10) {
+          ...R
+        }
+      }
+      fragment R on ResourceConn {
+        str
+        conn(last: 5) {
+          name
+        }
+      }
+      `,
+    cost: 71,
+    // resources = 1 * 1
+    // str       = 1 * 10
+    // conn      = 1 * 10
+    // name      = 1 * 10 * 5
+    //             _
+    //           = 71
+  },
+  {
+    query: `
+      query helloQuery {
+        resources(first: 10) {
+          ...S
+        }
+        other: resources(first: 10) {
+          ...S
+        }
+      }
+      fragment S on ResourceConn {
+        str
+      }
+      `,
+    cost: 22,
+    // fragments are costed every time they are spread.
+  },
+  {
+    query: `
+      query helloQuery {
+        resources(first: 10) {
+          ...S
+        }
+      }
+      fragment S on ResourceConn {
+        ...T
+      }
+      fragment T on ResourceConn {
+        str
+      }
+      `,
+    cost: 11,
+  },
+  {
+    query: `
+      query helloQuery {
+        resources(first: 10) {
+          genericResource {
+            ...E
+            ...C
+          }
+        }
+      }
+      fragment E on EmployeeResource {
+        email
+      }
+      fragment C on ComputerResource {
+        serialNumber
+        hardwareUUID
+      }
+      `,
+    cost: 31,
+    // fragments on narrower types are treated like inline fragments.
+    // resources                                = 1  * 1
+    // genericResource                          = 1  * 10
+    // max (EmployeeResource, ComputerResource) = (1  * 10, 2 * 10)
+    //                                            _
+    //                                          = 31
+  },
+  {
+    query: `
+      query helloQuery {
+        hello
+      }
+      fragment F on Query {
+        resources(first: 1000) {
+          str
+        }
+      }
+      `,
+    cost: 1,
+    // unused fragments don't cost anything.
+  },
+  {
+    query: `
+      query helloQuery {
+        ...F
+      }
+      fragment F on Query {
+        ...G
+      }
+      fragment G on Query {
+        ...F
+      }
+      `,
+    expectError: true,
+  },
+  {
+    query: `
+      query helloQuery {
+        ...Missing
+      }
+      `,
+    expectError: true,
+  },
   // variables
   {
     query: `
@@ -579,11 +755,23 @@ describe("query cost", () => {
     it(`works for case ${i + 1}`, () => {
       if (t.expectError) {
         assert.throws(() => {
-          cost(exampleSchema, directiveCostConfig, t.query, t.variables);
+          cost(
+            exampleSchema,
+            { directiveCostConfig },
+            t.query,
+            t.variables,
+            t.operationName
+          );
         });
       } else {
         assert.deepStrictEqual(
-          cost(exampleSchema, directiveCostConfig, t.query, t.variables),
+          cost(
+            exampleSchema,
+            { directiveCostConfig },
+            t.query,
+            t.variables,
+            t.operationName
+          ),
           t.cost,
           `Failed query: ${t.query}\n`
         );
@@ -592,50 +780,1733 @@ describe("query cost", () => {
   });
 });
 
-describe("query cost caching", () => {
-  it("caches appropriately in ignored cases", () => {
-    const noopKey = cacheKey("", {});
-    assert.deepStrictEqual(noopKey, cacheKey("", {}));
-    assert.deepStrictEqual(noopKey, cacheKey("\n", {}));
+const directiveSchema = buildSchema(`
+${costDirectiveTypeDefs}
+
+type Node {
+  name: String!
+  expensive: String! @cost(weight: 5)
+  cached: String! @cost(weight: 3, useMultipliers: false)
+}
+
+type Edge {
+  cursor: String!
+  node: Node!
+}
+
+type NodeConn {
+  totalCount: Int!
+  edges: [Edge!]!
+}
+
+type Query {
+  nodes(limit: Int, offset: Int): [Node!]! @listSize(slicingArguments: ["limit"])
+  assumed: [Node!]! @listSize(assumedSize: 20)
+  conn(first: Int, last: Int): NodeConn!
+    @listSize(slicingArguments: ["first", "last"], sizedFields: ["edges"])
+  byIds(ids: [ID!]!): [Node!]! @cost(weight: 2, multipliers: ["ids"])
+  batch(ids: [ID!]!): [Node!]!
+    @cost(weight: 2, multipliers: ["ids"], useMultipliers: false)
+}`);
+
+const directiveTests: Test[] = [
+  {
+    query: `query {
+      nodes(limit: 10, offset: 500) {
+        name
+      }
+    }`,
+    cost: 11,
+    // nodes = 1 * 1
+    // name  = 1 * 10
+  },
+  {
+    query: `query {
+      nodes(offset: 500) {
+        name
+      }
+    }`,
+    cost: 2,
+  },
+  {
+    query: `query($limit: Int) {
+      nodes(limit: $limit) {
+        name
+        expensive
+      }
+    }`,
+    variables: { limit: 10 },
+    cost: 61,
+    // nodes     = 1 * 1
+    // name      = 1 * 10
+    // expensive = 5 * 10
+  },
+  {
+    query: `query {
+      assumed {
+        name
+      }
+    }`,
+    cost: 21,
+  },
+  {
+    query: `query {
+      nodes(limit: 10) {
+        cached
+      }
+    }`,
+    cost: 4,
+    // nodes  = 1 * 1
+    // cached = 3, not multiplied by the page size
+  },
+  {
+    query: `query {
+      conn(first: 10) {
+        totalCount
+        edges {
+          cursor
+          node {
+            name
+          }
+        }
+      }
+    }`,
+    cost: 42,
+    // conn       = 1 * 1
+    // totalCount = 1 * 1
+    // edges      = 1 * 10
+    // cursor     = 1 * 10
+    // node       = 1 * 10
+    // name       = 1 * 10
+  },
+  {
+    query: `query {
+      conn(first: 10, last: 10) {
+        totalCount
+      }
+    }`,
+    expectError: true,
+  },
+  {
+    query: `query {
+      byIds(ids: ["1", "2", "3"]) {
+        name
+      }
+    }`,
+    cost: 7,
+    // byIds = 2 * 3
+    // name  = 1 * 1
+  },
+  {
+    query: `query($ids: [ID!]!) {
+      byIds(ids: $ids) {
+        name
+      }
+    }`,
+    variables: { ids: ["1", "2", "3", "4"] },
+    cost: 9,
+  },
+  {
+    query: `query {
+      batch(ids: ["1", "2", "3"]) {
+        name
+      }
+    }`,
+    cost: 3,
+    // batch = 2, useMultipliers: false ignores ids
+    // name  = 1 * 1
+  },
+];
+
+describe("query cost directives", () => {
+  directiveTests.forEach((t, i) => {
+    it(`works for case ${i + 1}`, () => {
+      if (t.expectError) {
+        assert.throws(() => {
+          cost(directiveSchema, {}, t.query, t.variables);
+        });
+      } else {
+        assert.deepStrictEqual(
+          cost(directiveSchema, {}, t.query, t.variables),
+          t.cost,
+          `Failed query: ${t.query}\n`
+        );
+      }
+    });
+  });
+  it("ignores directive values of other types", () => {
+    const otherSchema = buildSchema(`
+      directive @cost(weight: String!) on FIELD_DEFINITION
+      directive @listSize(assumedSize: String) on FIELD_DEFINITION
+
+      type Query {
+        a: String @cost(weight: "5")
+        list: [String!]! @listSize(assumedSize: "20")
+      }`);
+    assert.deepStrictEqual(cost(otherSchema, {}, `query { a list }`, {}), 2);
+  });
+});
+
+const slicingSchema = buildSchema(`
+type Item {
+  name: String!
+}
+
+type ItemConn {
+  items(first: Int): [Item!]!
+}
+
+type Other {
+  items(take: Int): [Item!]!
+}
+
+type Query {
+  items(limit: Int, first: Int): [Item!]!
+  paged(pageSize: Int): ItemConn!
+  other: Other!
+}`);
+
+describe("query cost slicing arguments", () => {
+  const slicingArgumentsConfig = {
+    defaultArguments: ["first", "last", "limit"],
+    overrides: new Map([["Query.paged", ["pageSize"]]]),
+    parentTypeOverrides: new Map([["Other", ["take"]]]),
+  };
+  it("uses global slicing arguments", () => {
     assert.deepStrictEqual(
-      noopKey,
-      cacheKey("\n", {
-        randomVar: "foo",
-      })
+      cost(
+        slicingSchema,
+        { slicingArgumentsConfig },
+        `query { items(limit: 10) { name } }`,
+        {}
+      ),
+      11
     );
-    assert.deepStrictEqual(noopKey, cacheKey("\t", {}));
-    assert.deepStrictEqual(noopKey, cacheKey(" ", {}));
   });
-  it("ignores variable order", () => {
+  it("errors on multiple slicing arguments", () => {
+    assert.throws(() => {
+      cost(
+        slicingSchema,
+        { slicingArgumentsConfig },
+        `query { items(limit: 10, first: 10) { name } }`,
+        {}
+      );
+    });
+  });
+  it("ignores null slicing arguments", () => {
     assert.deepStrictEqual(
-      cacheKey("", { first: 1, last: 1 }),
-      cacheKey("", { last: 1, first: 1 })
+      cost(
+        slicingSchema,
+        { slicingArgumentsConfig },
+        `query { items(limit: 10, first: null) { name } }`,
+        {}
+      ),
+      11
     );
+  });
+  it("ignores slicing arguments from unset variables", () => {
     assert.deepStrictEqual(
-      cacheKey("", { last: 1, first: 1 }),
-      cacheKey("", { first: 1, last: 1 })
+      cost(
+        slicingSchema,
+        { slicingArgumentsConfig },
+        `query items($limit: Int, $first: Int) { items(limit: $limit, first: $first) { name } }`,
+        { limit: 10 }
+      ),
+      11
     );
   });
-  it("takes pagination parameters into account", () => {
-    assert.notDeepStrictEqual(
-      cacheKey("", { first: 1 }),
-      cacheKey("", { last: 1, first: 1 })
+  it("ignores negative slicing arguments", () => {
+    const query = `query items($limit: Int) {
+      a: items(limit: -1000) { name }
+      b: items(limit: $limit) { name }
+    }`;
+    assert.deepStrictEqual(
+      cost(slicingSchema, { slicingArgumentsConfig }, query, { limit: -1000 }),
+      4
     );
-    assert.notDeepStrictEqual(
-      cacheKey("", { last: 1 }),
-      cacheKey("", { last: 1, first: 1 })
+  });
+  it("uses slicing arguments by field coordinate", () => {
+    assert.deepStrictEqual(
+      cost(
+        slicingSchema,
+        { slicingArgumentsConfig },
+        `query { paged(pageSize: 10) { items { name } } }`,
+        {}
+      ),
+      21
     );
   });
-  it("takes query into account", () => {
-    // questionable that these should have different keys, but we don't want to get too fancy
-    // in the cache check.
-    assert.notDeepStrictEqual(
-      cacheKey("query foo { resources { id } }", {}),
-      cacheKey("query bar { resources { id } }", {})
+  it("uses slicing arguments by parent type", () => {
+    assert.deepStrictEqual(
+      cost(
+        slicingSchema,
+        { slicingArgumentsConfig },
+        `query { other { items(take: 10) { name } } }`,
+        {}
+      ),
+      12
     );
-    assert.notDeepStrictEqual(
-      cacheKey("query foo { resources { id } }", {}),
-      cacheKey("query foo { resources { id name } }", {})
+  });
+  it("uses slicing arguments by return type", () => {
+    assert.deepStrictEqual(
+      cost(
+        slicingSchema,
+        {
+          slicingArgumentsConfig: {
+            returnTypeOverrides: new Map([["ItemConn", ["pageSize"]]]),
+          },
+        },
+        `query { paged(pageSize: 10) { items { name } } }`,
+        {}
+      ),
+      21
+    );
+  });
+  it("doesn't apply return type overrides to the fields of the type", () => {
+    assert.deepStrictEqual(
+      cost(
+        slicingSchema,
+        {
+          slicingArgumentsConfig: {
+            returnTypeOverrides: new Map([["ItemConn", ["pageSize"]]]),
+          },
+        },
+        `query { paged(pageSize: 10) { items(first: 100) { name } } }`,
+        {}
+      ),
+      // paged + 10 * items + 10 * 100 * name
+      1011
+    );
+  });
+  it("ignores arguments that aren't configured", () => {
+    assert.deepStrictEqual(
+      cost(slicingSchema, {}, `query { items(limit: 10) { name } }`, {}),
+      2
+    );
+  });
+});
+
+const slicedSchema = buildSchema(`
+type Item {
+  id: ID!
+}
+
+type Query {
+  text(first: Int): String
+  tags(first: Int): [String!]!
+  list(first: Int): [Item!]!
+}`);
+
+describe("query cost list sizes", () => {
+  it("assumes a default size for unpaginated lists", () => {
+    assert.deepStrictEqual(
+      cost(
+        exampleSchema,
+        { directiveCostConfig, listSizeConfig: { defaultListSize: 5 } },
+        `query { resources(first: 1) { tl } }`,
+        {}
+      ),
+      51
+    );
+    // resources = 1  * 1
+    // tl        = 10 * 1 * 5
+  });
+  it("assumes the max page size for connections without slicing arguments", () => {
+    assert.deepStrictEqual(
+      cost(
+        exampleSchema,
+        { listSizeConfig: { maxPageSize: 100, defaultListSize: 5 } },
+        `query { resources { str } }`,
+        {}
+      ),
+      101
+    );
+    assert.deepStrictEqual(
+      cost(
+        exampleSchema,
+        { listSizeConfig: { maxPageSize: 100 } },
+        `query { resources(first: 10) { str } }`,
+        {}
+      ),
+      11
+    );
+  });
+  it("assumes the default size for sliceable lists without a max page size", () => {
+    assert.deepStrictEqual(
+      cost(
+        slicedSchema,
+        { listSizeConfig: { defaultListSize: 100 } },
+        `query { list { id } }`,
+        {}
+      ),
+      101
+    );
+  });
+  it("uses assumed sizes by field coordinate", () => {
+    assert.deepStrictEqual(
+      cost(
+        exampleSchema,
+        {
+          directiveCostConfig,
+          listSizeConfig: {
+            defaultListSize: 5,
+            assumedSizes: new Map([["ResourceConn.tl", 3]]),
+          },
+        },
+        `query { resources(first: 1) { tl } }`,
+        {}
+      ),
+      31
+    );
+  });
+  it("doesn't multiply leaves that aren't lists by their slicing arguments", () => {
+    assert.deepStrictEqual(
+      cost(slicedSchema, {}, `query { text(first: 100) tags(first: 100) }`, {}),
+      101
+    );
+    assert.deepStrictEqual(
+      cost(
+        slicedSchema,
+        { listSizeConfig: { maxPageSize: 100 } },
+        `query { text }`,
+        {}
+      ),
+      1
+    );
+  });
+  it("doesn't assume sizes for fields that aren't lists", () => {
+    assert.deepStrictEqual(
+      cost(
+        exampleSchema,
+        { listSizeConfig: { defaultListSize: 5 } },
+        `query { hello world }`,
+        {}
+      ),
+      2
+    );
+  });
+});
+
+describe("query cost subscriptions", () => {
+  const query = `subscription helloSubscription {
+    resources(first: 10) {
+      str
+    }
+  }`;
+  it("costs the selection set times the event rate plus a surcharge", () => {
+    assert.deepStrictEqual(
+      cost(
+        exampleSchema,
+        { subscriptionCostConfig: { eventRate: 60, surcharge: 100 } },
+        query,
+        {}
+      ),
+      760
+    );
+    // surcharge            = 100
+    // resources            = 1 * 1  * 60
+    // str                  = 1 * 10 * 60
+    //                        _
+    //                      = 760
+  });
+  it("doesn't apply to queries", () => {
+    assert.deepStrictEqual(
+      cost(
+        exampleSchema,
+        { subscriptionCostConfig: { eventRate: 60, surcharge: 100 } },
+        `query { resources(first: 10) { str } }`,
+        {}
+      ),
+      11
+    );
+  });
+  it("explains the event rate", () => {
+    const { operations } = explainCost(exampleSchema, parse(query), {}, {
+      subscriptionCostConfig: { eventRate: 60 },
+    });
+    assert.deepStrictEqual(operations[0].multiplier, 60);
+    assert.deepStrictEqual(operations[0].subtotal, 660);
+  });
+  it("prefers the base cost of subscriptions to the surcharge", () => {
+    assert.deepStrictEqual(
+      cost(
+        exampleSchema,
+        {
+          subscriptionCostConfig: { eventRate: 60, surcharge: 100 },
+          operationCostConfig: { baseCosts: { subscription: 50 } },
+        },
+        query,
+        {}
+      ),
+      710
+    );
+  });
+});
+
+const operationSchema = buildSchema(`
+${costDirectiveTypeDefs}
+
+type Query {
+  hello: String
+}
+
+type Mutation @cost(weight: 20) {
+  hello: String
+  bulkImport: String @cost(weight: 500)
+}`);
+
+describe("query cost operation costs", () => {
+  it("keeps the default mutation cost", () => {
+    assert.deepStrictEqual(
+      cost(exampleSchema, {}, `mutation { hello }`, {}),
+      11
+    );
+  });
+  it("uses configured base costs", () => {
+    const operationCostConfig = { baseCosts: { query: 5, mutation: 50 } };
+    assert.deepStrictEqual(
+      cost(exampleSchema, { operationCostConfig }, `query { hello }`, {}),
+      6
+    );
+    assert.deepStrictEqual(
+      cost(exampleSchema, { operationCostConfig }, `mutation { hello }`, {}),
+      51
+    );
+    assert.deepStrictEqual(
+      cost(operationSchema, { operationCostConfig }, `mutation { hello }`, {}),
+      51
+    );
+  });
+  it("uses base costs from root type directives", () => {
+    assert.deepStrictEqual(
+      cost(operationSchema, {}, `mutation { hello }`, {}),
+      21
+    );
+    assert.deepStrictEqual(
+      cost(operationSchema, {}, `mutation { bulkImport }`, {}),
+      520
+    );
+  });
+  it("adds root field surcharges", () => {
+    const operationCostConfig = {
+      rootFieldSurcharges: new Map([
+        ["Mutation.hello", 100],
+        ["ResourceConn.str", 100],
+      ]),
+    };
+    assert.deepStrictEqual(
+      cost(operationSchema, { operationCostConfig }, `mutation { hello }`, {}),
+      121
+    );
+    // only root fields are surcharged.
+    assert.deepStrictEqual(
+      cost(
+        exampleSchema,
+        { operationCostConfig },
+        `query { resources(first: 1) { str } }`,
+        {}
+      ),
+      2
+    );
+  });
+});
+
+const argumentSchema = buildSchema(`
+type Item {
+  name: String!
+}
+
+type Query {
+  itemsByIds(ids: [ID!]!, includeArchived: Boolean): [Item!]!
+  tree(depth: Int): Item
+}`);
+
+describe("query cost argument multipliers", () => {
+  const argumentMultiplierConfig = new Map([
+    [
+      "Query.itemsByIds",
+      [{ argument: "ids" }, { argument: "includeArchived", whenTrue: 2 }],
+    ],
+    ["Query.tree", [{ argument: "depth" }]],
+  ]);
+  it("multiplies by the number of items of list arguments", () => {
+    assert.deepStrictEqual(
+      cost(
+        argumentSchema,
+        { argumentMultiplierConfig },
+        `query { itemsByIds(ids: ["1", "2", "3"]) { name } }`,
+        {}
+      ),
+      6
+    );
+    // itemsByIds = 1 * 3
+    // name       = 1 * 3
+  });
+  it("multiplies by numeric arguments", () => {
+    assert.deepStrictEqual(
+      cost(
+        argumentSchema,
+        { argumentMultiplierConfig },
+        `query { tree(depth: 5) { name } }`,
+        {}
+      ),
+      10
+    );
+  });
+  it("ignores negative numeric arguments", () => {
+    assert.deepStrictEqual(
+      cost(
+        argumentSchema,
+        { argumentMultiplierConfig },
+        `query { tree(depth: -5) { name } }`,
+        {}
+      ),
+      2
+    );
+  });
+  it("multiplies by boolean arguments when they are true", () => {
+    assert.deepStrictEqual(
+      cost(
+        argumentSchema,
+        { argumentMultiplierConfig },
+        `query { itemsByIds(ids: ["1", "2", "3"], includeArchived: true) { name } }`,
+        {}
+      ),
+      12
+    );
+    assert.deepStrictEqual(
+      cost(
+        argumentSchema,
+        { argumentMultiplierConfig },
+        `query { itemsByIds(ids: ["1", "2", "3"], includeArchived: false) { name } }`,
+        {}
+      ),
+      6
+    );
+  });
+  it("resolves variables", () => {
+    const query = `query($ids: [ID!]!, $archived: Boolean) {
+      itemsByIds(ids: $ids, includeArchived: $archived) {
+        name
+      }
+    }`;
+    assert.deepStrictEqual(
+      cost(
+        argumentSchema,
+        { argumentMultiplierConfig },
+        query,
+        { ids: ["1", "2"], archived: true }
+      ),
+      8
+    );
+    assert.deepStrictEqual(
+      costVariables(
+        argumentSchema,
+        { argumentMultiplierConfig },
+        parse(query),
+        undefined
+      ),
+      ["archived", "ids"]
+    );
+  });
+});
+
+const abstractSchema = buildSchema(`
+${costDirectiveTypeDefs}
+
+interface Media {
+  id: ID!
+}
+
+type Photo implements Media @cost(weight: 2) {
+  id: ID!
+  url: String!
+}
+
+type Video implements Media @cost(weight: 10) {
+  id: ID!
+  url: String!
+  transcript: String!
+}
+
+type Article {
+  id: ID!
+  body: String!
+}
+
+union SearchResult = Photo | Video | Article
+
+type MediaEdge {
+  node: Media!
+}
+
+type MediaConn @cost(weight: 5) {
+  edges: [MediaEdge!]!
+}
+
+type Query {
+  media(first: Int): [Media!]!
+  mediaConn(first: Int): MediaConn!
+  search(first: Int): [SearchResult!]!
+}`);
+
+describe("query cost abstract types", () => {
+  const mediaQuery = `query { media(first: 5) { id } }`;
+  const searchQuery = `query {
+    search(first: 4) {
+      ... on Photo { url }
+      ... on Video { url transcript }
+      ... on Article { body }
+    }
+  }`;
+  it("costs the most expensive possible type by default", () => {
+    assert.deepStrictEqual(cost(abstractSchema, {}, mediaQuery, {}), 56);
+    // media = 1 + 10 * 5
+    // id    = 1 * 5
+    assert.deepStrictEqual(cost(abstractSchema, {}, searchQuery, {}), 49);
+    // search = 1 + 10 * 4
+    // Video  = 2 * 4
+  });
+  it("weighs the object a connection returns once", () => {
+    assert.deepStrictEqual(
+      cost(
+        abstractSchema,
+        {},
+        `query { mediaConn(first: 50) { edges { node { id } } } }`,
+        {}
+      ),
+      656
+    );
+    // mediaConn = 1 + 5
+    // edges     = 1 * 50
+    // node      = (1 + 10) * 50
+    // id        = 1 * 50
+  });
+  it("prefers configured type weights over directives", () => {
+    assert.deepStrictEqual(
+      cost(
+        abstractSchema,
+        { typeCostConfig: { typeWeights: new Map([["Video", 4]]) } },
+        mediaQuery,
+        {}
+      ),
+      26
+    );
+  });
+  it("adds up possible types", () => {
+    const typeCostConfig = { abstractTypeStrategy: "sum" as const };
+    assert.deepStrictEqual(
+      cost(abstractSchema, { typeCostConfig }, mediaQuery, {}),
+      66
+    );
+    assert.deepStrictEqual(
+      cost(abstractSchema, { typeCostConfig }, searchQuery, {}),
+      65
+    );
+    // search  = 1 + (2 + 10 + 0) * 4
+    // Photo   = 1 * 4
+    // Video   = 2 * 4
+    // Article = 1 * 4
+  });
+  it("weighs possible types by frequency", () => {
+    const typeCostConfig = {
+      abstractTypeStrategy: "weighted" as const,
+      typeFrequencies: new Map([["Photo", 2]]),
+    };
+    assert.deepStrictEqual(
+      cost(abstractSchema, { typeCostConfig }, searchQuery, {}),
+      20
+    );
+    // search  = 1 + (2 * 2 + 10 + 0) / 4 * 4
+    // Photo   = 1 * 4 * 2 / 4
+    // Video   = 2 * 4 * 1 / 4
+    // Article = 1 * 4 * 1 / 4
+    assert.deepStrictEqual(
+      cost(
+        abstractSchema,
+        { typeCostConfig },
+        `query { search(first: 4) { ... on Media { id } } }`,
+        {}
+      ),
+      18
+    );
+    // search = 1 + 3.5 * 4
+    // Media  = 1 * 4 * 3 / 4
+  });
+  it("costs possible types that are never returned as 0", () => {
+    const typeCostConfig = {
+      abstractTypeStrategy: "weighted" as const,
+      typeFrequencies: new Map([
+        ["Photo", 0],
+        ["Video", -1],
+      ]),
+    };
+    assert.deepStrictEqual(
+      cost(abstractSchema, { typeCostConfig }, mediaQuery, {}),
+      6
+    );
+    // media = 1 + 0 * 5
+    // id    = 1 * 5
+  });
+  it("explains the share of inline fragments", () => {
+    const shares = (abstractTypeStrategy: "max" | "sum" | "weighted") => {
+      const [operation] = explainCost(abstractSchema, parse(searchQuery), {}, {
+        typeCostConfig: {
+          abstractTypeStrategy,
+          typeFrequencies: new Map([["Article", 0]]),
+        },
+      }).operations;
+      const [search] = operation.children;
+      return search.children.map((child) =>
+        child.kind === "InlineFragment" ? [child.chosen, child.share] : []
+      );
+    };
+    assert.deepStrictEqual(shares("max"), [
+      [false, 0],
+      [true, 1],
+      [false, 0],
+    ]);
+    assert.deepStrictEqual(shares("sum"), [
+      [true, 1],
+      [true, 1],
+      [true, 1],
+    ]);
+    assert.deepStrictEqual(shares("weighted"), [
+      [true, 0.5],
+      [true, 0.5],
+      [false, 0],
+    ]);
+  });
+});
+
+describe("query cost explanation", () => {
+  it("mirrors the selection set", () => {
+    const explanation = explainCost(
+      exampleSchema,
+      parse(`
+        query helloQuery {
+          resources(first: 10) {
+            str
+            genericResource {
+              ... on EmployeeResource {
+                email
+              }
+              ... on ComputerResource {
+                serialNumber
+                hardwareUUID
+              }
+            }
+          }
+        }`),
+      {}
+    );
+    assert.deepStrictEqual(explanation, {
+      cost: 41,
+      operations: [
+        {
+          kind: "OperationDefinition",
+          operation: "query",
+          name: "helloQuery",
+          weight: 0,
+          multiplier: 1,
+          subtotal: 41,
+          children: [
+            {
+              kind: "Field",
+              name: "resources",
+              alias: undefined,
+              weight: 1,
+              multiplier: 1,
+              cost: 1,
+              subtotal: 41,
+              children: [
+                {
+                  kind: "Field",
+                  name: "str",
+                  alias: undefined,
+                  weight: 1,
+                  multiplier: 10,
+                  cost: 10,
+                  subtotal: 10,
+                  children: [],
+                },
+                {
+                  kind: "Field",
+                  name: "genericResource",
+                  alias: undefined,
+                  weight: 1,
+                  multiplier: 10,
+                  cost: 10,
+                  subtotal: 30,
+                  children: [
+                    {
+                      kind: "InlineFragment",
+                      typeCondition: "EmployeeResource",
+                      chosen: false,
+                      share: 0,
+                      subtotal: 10,
+                      children: [
+                        {
+                          kind: "Field",
+                          name: "email",
+                          alias: undefined,
+                          weight: 1,
+                          multiplier: 10,
+                          cost: 10,
+                          subtotal: 10,
+                          children: [],
+                        },
+                      ],
+                    },
+                    {
+                      kind: "InlineFragment",
+                      typeCondition: "ComputerResource",
+                      chosen: true,
+                      share: 1,
+                      subtotal: 20,
+                      children: [
+                        {
+                          kind: "Field",
+                          name: "serialNumber",
+                          alias: undefined,
+                          weight: 1,
+                          multiplier: 10,
+                          cost: 10,
+                          subtotal: 10,
+                          children: [],
+                        },
+                        {
+                          kind: "Field",
+                          name: "hardwareUUID",
+                          alias: undefined,
+                          weight: 1,
+                          multiplier: 10,
+                          cost: 10,
+                          subtotal: 10,
+                          children: [],
+                        },
+                      ],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      shape: { depth: 3, aliases: 0, rootFields: 1 },
+    });
+  });
+  it("reports operation weights and aliases", () => {
+    const explanation = explainCost(
+      exampleSchema,
+      parse(`mutation helloMutation { greeting: hello }`),
+      {}
+    );
+    assert.deepStrictEqual(explanation.cost, 11);
+    assert.deepStrictEqual(explanation.operations[0].weight, 10);
+    assert.deepStrictEqual(explanation.operations[0].children[0], {
+      kind: "Field",
+      name: "hello",
+      alias: "greeting",
+      weight: 1,
+      multiplier: 1,
+      cost: 1,
+      subtotal: 1,
+      children: [],
+    });
+  });
+  it("measures the shape of documents", () => {
+    const { shape } = explainCost(
+      exampleSchema,
+      parse(`
+        query {
+          first: resources(first: 1) {
+            genericResource {
+              ... on ComputerResource {
+                resources(first: 1) {
+                  str
+                }
+              }
+            }
+          }
+          second: resources(first: 1) {
+            str
+          }
+          hello
+        }`),
+      {}
+    );
+    assert.deepStrictEqual(shape, { depth: 4, aliases: 2, rootFields: 2 });
+  });
+  it("counts nested fields of the chosen inline fragment only", () => {
+    assert.deepStrictEqual(
+      cost(
+        exampleSchema,
+        {},
+        `query helloQuery {
+          resources(first: 10) {
+            genericResource {
+              ... on EmployeeResource {
+                email
+                otherAttr
+              }
+              ... on ComputerResource {
+                resources(first: 10) {
+                  str
+                }
+              }
+            }
+          }
+        }`,
+        {}
+      ),
+      121
+    );
+    // resources                                = 1  * 1
+    // genericResource                          = 1  * 10
+    // max (EmployeeResource, ComputerResource) = (2  * 10, 1 * 10 + 1 * 10 * 10)
+    //                                            _
+    //                                          = 121
+  });
+});
+
+// a chain of fragments, each spreading the next one twice.
+function doublingFragments(
+  depth: number,
+  selections: (next: string) => string
+) {
+  return Array.from(
+    { length: depth },
+    (_, i) => `fragment F${i} on Node { ${selections(`...F${i + 1}`)} }`
+  )
+    .concat(`fragment F${depth} on Node { name }`)
+    .join("\n");
+}
+
+const nodeSchema = buildSchema(`
+type Node {
+  name: String
+  left: Node
+  right: Node
+}
+
+type Query {
+  node: Node
+}`);
+
+describe("query cost fragments", () => {
+  it("resolves repeated spreads once, like field collection", () => {
+    const query = `query { node { ...F0 } }
+      ${doublingFragments(40, (next) => `${next} ${next}`)}`;
+    assert.deepStrictEqual(cost(nodeSchema, {}, query, {}), 2);
+  });
+  it("rejects documents expanding to too many selections", () => {
+    const query = `query { node { ...F0 } }
+      ${doublingFragments(40, (next) => `left { ${next} } right { ${next} }`)}`;
+    assert.throws(
+      () => cost(nodeSchema, {}, query, {}),
+      (e: unknown) => {
+        assert(e instanceof QueryLimitExceededError);
+        assert.deepStrictEqual(e.extensions.limit, {
+          name: "maxSelections",
+          requested: 3 * 2 ** 40 - 1,
+          maximum: 100000,
+        });
+        return true;
+      }
+    );
+    assert.throws(
+      () =>
+        costVariables(
+          nodeSchema,
+          { maxSelections: 10 },
+          parse(query),
+          undefined
+        ),
+      QueryLimitExceededError
+    );
+  });
+});
+
+describe("query cost merging", () => {
+  it("costs identical selections once", () => {
+    assert.deepStrictEqual(
+      cost(
+        exampleSchema,
+        {},
+        `query {
+          resources(first: 10) {
+            str
+          }
+          ...resources
+        }
+        fragment resources on Query {
+          resources(first: 10) {
+            str
+            conn(first: 2) {
+              name
+            }
+          }
+        }`,
+        {}
+      ),
+      // resources + 10 * (str + conn + 2 * name)
+      41
+    );
+  });
+  it("merges inline fragments on the same type", () => {
+    assert.deepStrictEqual(
+      cost(
+        exampleSchema,
+        { typeCostConfig: { abstractTypeStrategy: "sum" } },
+        `query {
+          resources(first: 10) {
+            genericResource {
+              ... on EmployeeResource {
+                email
+              }
+              ... on EmployeeResource {
+                email
+              }
+            }
+          }
+        }`,
+        {}
+      ),
+      21
+    );
+  });
+  it("merges inline fragments that always apply into their parent", () => {
+    assert.deepStrictEqual(
+      cost(
+        exampleSchema,
+        {},
+        `query {
+          resources(first: 10) {
+            str
+          }
+          ... on Query {
+            resources(first: 10) {
+              str
+            }
+          }
+          ... {
+            resources(first: 10) {
+              str
+            }
+          }
+        }`,
+        {}
+      ),
+      11
+    );
+  });
+  it("costs every alias", () => {
+    const query = `query {
+      a: resources(first: 10) { str }
+      b: resources(first: 10) { str }
+      c: resources(first: 10) { str }
+    }`;
+    assert.deepStrictEqual(cost(exampleSchema, {}, query, {}), 33);
+    assert.deepStrictEqual(
+      cost(
+        exampleSchema,
+        { aliasCostConfig: { surcharge: 5, freeAliases: 2 } },
+        query,
+        {}
+      ),
+      38
+    );
+  });
+});
+
+describe("query cost conditions", () => {
+  it("doesn't cost selections excluded by literal conditions", () => {
+    assert.deepStrictEqual(
+      cost(
+        exampleSchema,
+        {},
+        `query {
+          hello @skip(if: true)
+          world @include(if: true)
+          resources(first: 10) @include(if: false) {
+            str
+          }
+        }`,
+        {}
+      ),
+      1
+    );
+  });
+  it("doesn't cost selections excluded by variables", () => {
+    const query = `
+      query helloQuery($withConn: Boolean!, $withEmail: Boolean = false) {
+        resources(first: 10) {
+          str
+          ...F @include(if: $withConn)
+          genericResource {
+            ... on EmployeeResource @include(if: $withEmail) {
+              email
+            }
+          }
+        }
+      }
+      fragment F on ResourceConn {
+        conn(first: 10) {
+          name
+        }
+      }`;
+    // resources + 10 * (str + genericResource)
+    assert.deepStrictEqual(
+      cost(exampleSchema, {}, query, { withConn: false }),
+      21
+    );
+    // + 10 * (conn + 10 * name)
+    assert.deepStrictEqual(
+      cost(exampleSchema, {}, query, { withConn: true }),
+      131
+    );
+    // + 10 * email
+    assert.deepStrictEqual(
+      cost(exampleSchema, {}, query, { withConn: false, withEmail: true }),
+      31
+    );
+  });
+  it("merges fields included by conditions with unconditional ones", () => {
+    assert.deepStrictEqual(
+      cost(
+        exampleSchema,
+        {},
+        `query helloQuery($withResources: Boolean!) {
+          resources(first: 10) {
+            str
+          }
+          resources(first: 10) @include(if: $withResources) {
+            str
+          }
+        }`,
+        { withResources: true }
+      ),
+      11
+    );
+  });
+});
+
+describe("query cost caching", () => {
+  it("caches appropriately in ignored cases", () => {
+    const noopKey = cacheKey("", {});
+    assert.deepStrictEqual(noopKey, cacheKey("", {}));
+    assert.deepStrictEqual(noopKey, cacheKey("\n", {}));
+    assert.deepStrictEqual(
+      noopKey,
+      cacheKey("\n", {
+        randomVar: "foo",
+      })
+    );
+    assert.deepStrictEqual(noopKey, cacheKey("\t", {}));
+    assert.deepStrictEqual(noopKey, cacheKey(" ", {}));
+  });
+  it("ignores variable order", () => {
+    assert.deepStrictEqual(
+      cacheKey("", { first: 1, last: 1 }),
+      cacheKey("", { last: 1, first: 1 })
+    );
+    assert.deepStrictEqual(
+      cacheKey("", { last: 1, first: 1 }),
+      cacheKey("", { first: 1, last: 1 })
+    );
+  });
+  it("takes pagination parameters into account", () => {
+    assert.notDeepStrictEqual(
+      cacheKey("", { first: 1 }),
+      cacheKey("", { last: 1, first: 1 })
+    );
+    assert.notDeepStrictEqual(
+      cacheKey("", { last: 1 }),
+      cacheKey("", { last: 1, first: 1 })
+    );
+  });
+  it("takes configured slicing arguments into account", () => {
+    assert.deepStrictEqual(
+      cacheKey("", { limit: 1 }),
+      cacheKey("", { limit: 10 })
+    );
+    assert.notDeepStrictEqual(
+      cacheKey("", { limit: 1 }, undefined, ["limit"]),
+      cacheKey("", { limit: 10 }, undefined, ["limit"])
+    );
+  });
+  it("finds variables flowing into slicing arguments", () => {
+    const query = `
+      query helloQuery($pageSize: Int, $after: String, $size: Int) {
+        resources(first: $pageSize) {
+          str
+          ...F
+        }
+      }
+      fragment F on ResourceConn {
+        conn(last: $size) {
+          name
+        }
+      }`;
+    const variables = costVariables(exampleSchema, {}, parse(query), undefined);
+    assert.deepStrictEqual(variables, ["pageSize", "size"]);
+    assert.notDeepStrictEqual(
+      cacheKey(query, { pageSize: 10 }, undefined, variables),
+      cacheKey(query, { pageSize: 10000 }, undefined, variables)
+    );
+    assert.deepStrictEqual(
+      cacheKey(query, { pageSize: 10, after: "a" }, undefined, variables),
+      cacheKey(query, { pageSize: 10, after: "b" }, undefined, variables)
+    );
+  });
+  it("finds variables flowing into @skip and @include", () => {
+    const query = `
+      query helloQuery($withHello: Boolean!, $withoutConn: Boolean!) {
+        hello @include(if: $withHello)
+        resources(first: 10) {
+          ...F @skip(if: $withoutConn)
+        }
+      }
+      fragment F on ResourceConn {
+        conn(first: 10) {
+          name
+        }
+      }`;
+    const variables = costVariables(exampleSchema, {}, parse(query), undefined);
+    assert.deepStrictEqual(variables, ["withHello", "withoutConn"]);
+    assert.notDeepStrictEqual(
+      cacheKey(query, { withHello: true }, undefined, variables),
+      cacheKey(query, { withHello: false }, undefined, variables)
+    );
+  });
+  it("finds variables flowing into cost directive arguments", () => {
+    const query = `
+      query($limit: Int, $ids: [ID!]!, $batchIds: [ID!]!) {
+        nodes(limit: $limit) {
+          name
+        }
+        byIds(ids: $ids) {
+          name
+        }
+        batch(ids: $batchIds) {
+          name
+        }
+      }`;
+    assert.deepStrictEqual(
+      costVariables(directiveSchema, {}, parse(query), undefined),
+      ["ids", "limit"]
+    );
+  });
+  it("takes operation name into account", () => {
+    const query = "query foo { resources { id } } query bar { resources { id } }";
+    assert.notDeepStrictEqual(
+      cacheKey(query, {}, "foo"),
+      cacheKey(query, {}, "bar")
+    );
+    assert.notDeepStrictEqual(cacheKey(query, {}, "foo"), cacheKey(query, {}));
+  });
+  it("takes query into account", () => {
+    // questionable that these should have different keys, but we don't want to get too fancy
+    // in the cache check.
+    assert.notDeepStrictEqual(
+      cacheKey("query foo { resources { id } }", {}),
+      cacheKey("query bar { resources { id } }", {})
+    );
+    assert.notDeepStrictEqual(
+      cacheKey("query foo { resources { id } }", {}),
+      cacheKey("query foo { resources { id name } }", {})
+    );
+  });
+});
+
+// runs a request through the plugin hooks the way Apollo Server does.
+async function runPlugin(
+  plugin: ApolloServerPlugin,
+  query: string,
+  variables: VariableValues = {},
+  operationName?: string,
+  context: Record<string, unknown> = {}
+) {
+  const request = { query, variables, operationName };
+  const response: GraphQLResponse = {};
+  const listener = await plugin.requestDidStart?.({
+    request,
+  } as GraphQLRequestContext);
+  try {
+    await listener?.didResolveOperation?.({
+      request,
+      document: parse(query),
+      context,
+    } as unknown as GraphQLRequestContextDidResolveOperation<
+      Record<string, unknown>
+    >);
+  } finally {
+    await listener?.willSendResponse?.({
+      request,
+      response,
+    } as unknown as GraphQLRequestContextWillSendResponse<
+      Record<string, unknown>
+    >);
+  }
+  return response;
+}
+
+describe("query cost plugin", () => {
+  const options = {
+    costThreshold: 100,
+    sampleRate: 1,
+    blockOnHighQueryCost: true,
+    queryCacheSize: 10,
+  };
+  it("allows cheap requests", async () => {
+    await runPlugin(
+      queryCost(exampleSchema, options),
+      `query { resources(first: 10) { str } }`
+    );
+  });
+  it("blocks expensive requests with a structured error", async () => {
+    let blockedCost = 0;
+    await assert.rejects(
+      runPlugin(
+        queryCost(exampleSchema, {
+          ...options,
+          onRequestBlocked: (c, document, explain) => {
+            blockedCost = explain().cost;
+          },
+        }),
+        `query { resources(first: 1000) { str } }`
+      ),
+      (e: unknown) => {
+        assert(e instanceof QueryCostTooHighError);
+        assert(e instanceof GraphQLError);
+        assert.deepStrictEqual(e.extensions, {
+          code: QUERY_COST_TOO_HIGH,
+          cost: { requested: 1001, maximum: 100 },
+        });
+        return true;
+      }
+    );
+    assert.deepStrictEqual(blockedCost, 1001);
+  });
+  it("attaches the most expensive fields", async () => {
+    await assert.rejects(
+      runPlugin(
+        queryCost(exampleSchema, { ...options, topFieldsInError: 2 }),
+        `query {
+          resources(first: 10) {
+            str
+            conn(last: 50) {
+              name
+            }
+          }
+        }`
+      ),
+      (e: unknown) => {
+        assert(e instanceof QueryCostTooHighError);
+        assert.deepStrictEqual(e.extensions.cost, {
+          requested: 521,
+          maximum: 100,
+          topFields: [
+            { path: "resources.conn.name", cost: 500 },
+            { path: "resources.str", cost: 10 },
+          ],
+        });
+        return true;
+      }
+    );
+  });
+});
+
+describe("query cost response extensions", () => {
+  const options = {
+    costThreshold: 100,
+    sampleRate: 1,
+    blockOnHighQueryCost: false,
+    queryCacheSize: 10,
+  };
+  const query = `query { resources(first: 10) { str } }`;
+  it("doesn't report cost by default", async () => {
+    const response = await runPlugin(queryCost(exampleSchema, options), query);
+    assert.deepStrictEqual(response.extensions, undefined);
+  });
+  it("reports cost and cache hits", async () => {
+    const plugin = queryCost(exampleSchema, {
+      ...options,
+      reportCostInResponse: true,
+    });
+    assert.deepStrictEqual((await runPlugin(plugin, query)).extensions, {
+      cost: { requested: 11, maximum: 100, cached: false },
+    });
+    assert.deepStrictEqual((await runPlugin(plugin, query)).extensions, {
+      cost: { requested: 11, maximum: 100, cached: true },
+    });
+  });
+  it("reports the breakdown", async () => {
+    const response = await runPlugin(
+      queryCost(exampleSchema, {
+        ...options,
+        reportCostInResponse: true,
+        reportCostBreakdownInResponse: true,
+      }),
+      query
+    );
+    assert.deepStrictEqual(
+      response.extensions?.cost.breakdown,
+      explainCost(exampleSchema, parse(query), {})
+    );
+  });
+});
+
+describe("query cost budgets", () => {
+  const options = {
+    costThreshold: 1000,
+    sampleRate: 1,
+    blockOnHighQueryCost: true,
+    queryCacheSize: 10,
+  };
+  const query = `query { resources(first: 10) { str } }`;
+  it("deducts costs from the budget of each caller", async () => {
+    const exceeded: string[] = [];
+    const plugin = queryCost(exampleSchema, {
+      ...options,
+      costBudget: {
+        capacity: 20,
+        windowMs: 60_000,
+        identifyCaller: (context) => context.user as string | undefined,
+        onBudgetExceeded: (caller) => exceeded.push(caller),
+        now: () => 1_000_000,
+      },
+    });
+    await runPlugin(plugin, query, {}, undefined, { user: "a" });
+    await assert.rejects(
+      runPlugin(plugin, query, {}, undefined, { user: "a" }),
+      (e: unknown) => {
+        assert(e instanceof CostBudgetExceededError);
+        assert.deepStrictEqual(e.extensions.code, COST_BUDGET_EXCEEDED);
+        assert.deepStrictEqual(e.extensions.cost, {
+          requested: 11,
+          remaining: 9,
+          retryAfterMs: 6000,
+        });
+        return true;
+      }
+    );
+    assert.deepStrictEqual(exceeded, ["a"]);
+    await runPlugin(plugin, query, {}, undefined, { user: "b" });
+    // requests without a caller aren't limited.
+    await runPlugin(plugin, query);
+    await runPlugin(plugin, query);
+  });
+  it("requires every request to be costed", () => {
+    assert.throws(() =>
+      queryCost(exampleSchema, {
+        ...options,
+        sampleRate: 0.5,
+        blockOnHighQueryCost: false,
+        costBudget: {
+          capacity: 20,
+          windowMs: 60_000,
+          identifyCaller: () => "a",
+        },
+      })
+    );
+  });
+});
+
+describe("query cost thresholds", () => {
+  const options = {
+    costThreshold: 1000,
+    sampleRate: 1,
+    blockOnHighQueryCost: true,
+    queryCacheSize: 10,
+  };
+  const query = `query { resources(first: 10) { str } }`;
+  it("warns above the warning threshold", async () => {
+    const warnings: [number, number][] = [];
+    const plugin = queryCost(exampleSchema, {
+      ...options,
+      warnThreshold: 10,
+      onThresholdWarning: (cost, threshold) => warnings.push([cost, threshold]),
+    });
+    const response = await runPlugin(plugin, query);
+    assert.deepStrictEqual(warnings, [[11, 10]]);
+    assert.deepStrictEqual(response.extensions, {
+      costWarning: {
+        message: "Calculated cost 11 is over the warning threshold of 10",
+        requested: 11,
+        threshold: 10,
+      },
+    });
+    assert.deepStrictEqual(
+      (await runPlugin(plugin, `query { resources(first: 5) { str } }`))
+        .extensions,
+      undefined
+    );
+  });
+  it("blocks above the block threshold", async () => {
+    const warnings: number[] = [];
+    const plugin = queryCost(exampleSchema, {
+      ...options,
+      blockThreshold: 10,
+      warnThreshold: 5,
+      onThresholdWarning: (cost) => warnings.push(cost),
+    });
+    await assert.rejects(runPlugin(plugin, query), (e: unknown) => {
+      assert(e instanceof QueryCostTooHighError);
+      assert.deepStrictEqual(e.extensions.cost, {
+        requested: 11,
+        maximum: 10,
+      });
+      return true;
+    });
+    // blocked requests don't warn.
+    assert.deepStrictEqual(warnings, []);
+  });
+  it("warns without blocking when sampled", async () => {
+    const warnings: number[] = [];
+    const plugin = queryCost(exampleSchema, {
+      ...options,
+      sampleRate: 0.5,
+      blockOnHighQueryCost: false,
+      warnThreshold: 10,
+      onThresholdWarning: (cost) => warnings.push(cost),
+    });
+    const random = Math.random;
+    try {
+      Math.random = () => 0.25;
+      await runPlugin(plugin, query);
+      assert.deepStrictEqual(warnings, [11]);
+      Math.random = () => 0.75;
+      await runPlugin(plugin, query);
+      assert.deepStrictEqual(warnings, [11]);
+    } finally {
+      Math.random = random;
+    }
+  });
+  it("reports disagreements with a shadow model", async () => {
+    const disagreements: unknown[] = [];
+    const plugin = queryCost(exampleSchema, {
+      ...options,
+      shadow: {
+        costThreshold: 100,
+        onDisagreement: ({ operationName, enforced, candidate }) =>
+          disagreements.push({ operationName, enforced, candidate }),
+      },
+    });
+    await runPlugin(plugin, query);
+    await assert.rejects(
+      runPlugin(plugin, `query { resources(first: 1000) { str } }`)
+    );
+    await runPlugin(
+      plugin,
+      `query expensive { resources(first: 500) { str } }`,
+      {},
+      "expensive"
+    );
+    assert.deepStrictEqual(disagreements, [
+      {
+        operationName: "expensive",
+        enforced: { cost: 501, overThreshold: false },
+        candidate: { cost: 501, overThreshold: true },
+      },
+    ]);
+  });
+  it("doesn't block allowlisted operations", async () => {
+    const plugin = queryCost(exampleSchema, {
+      ...options,
+      reportCostInResponse: true,
+      allowlist: { operationNames: ["export"] },
+    });
+    const response = await runPlugin(
+      plugin,
+      `query export { resources(first: 5000) { str } }`
+    );
+    assert.deepStrictEqual(response.extensions, {
+      cost: { requested: 5001, maximum: 1000, cached: false },
+    });
+    await assert.rejects(
+      runPlugin(plugin, `query other { resources(first: 5000) { str } }`)
+    );
+  });
+});
+
+describe("query limits", () => {
+  const options = {
+    costThreshold: 1000,
+    sampleRate: 1,
+    blockOnHighQueryCost: true,
+    queryCacheSize: 10,
+  };
+  it("blocks requests over a limit with a structured error", async () => {
+    let blockedCost = 0;
+    const plugin = queryCost(exampleSchema, {
+      ...options,
+      queryLimits: { maxDepth: 3, maxAliases: 1 },
+      onRequestBlocked: (c) => {
+        blockedCost = c;
+      },
+    });
+    await runPlugin(plugin, `query { resources(first: 1) { str } }`);
+    await assert.rejects(
+      runPlugin(
+        plugin,
+        `query { a: resources(first: 1) { str } b: resources(first: 1) { str } }`
+      ),
+      (e: unknown) => {
+        assert(e instanceof QueryLimitExceededError);
+        assert.deepStrictEqual(e.extensions, {
+          code: QUERY_LIMIT_EXCEEDED,
+          limit: { name: "maxAliases", requested: 2, maximum: 1 },
+        });
+        return true;
+      }
+    );
+    assert.deepStrictEqual(blockedCost, 4);
+  });
+  it("blocks documents too large to cost", async () => {
+    const errors: Error[] = [];
+    const plugin = queryCost(exampleSchema, {
+      ...options,
+      maxSelections: 2,
+      onError: (e) => errors.push(e),
+    });
+    await assert.rejects(
+      runPlugin(plugin, `query { resources(first: 1) { str tl } }`),
+      QueryLimitExceededError
+    );
+    assert.deepStrictEqual(errors.length, 1);
+  });
+  it("checks limits of cached costs", async () => {
+    const plugin = queryCost(exampleSchema, {
+      ...options,
+      queryLimits: { maxRootFields: 1 },
+    });
+    const query = `query { resources(first: 1) { str } hello }`;
+    await assert.rejects(runPlugin(plugin, query), QueryLimitExceededError);
+    await assert.rejects(runPlugin(plugin, query), QueryLimitExceededError);
+  });
+});
+
+describe("top field costs", () => {
+  it("uses response paths through inline fragments", () => {
+    const explanation = explainCost(
+      exampleSchema,
+      parse(`query {
+        all: resources(first: 10) {
+          genericResource {
+            ... on EmployeeResource {
+              tl
+            }
+          }
+        }
+      }`),
+      {},
+      { directiveCostConfig }
     );
+    assert.deepStrictEqual(topFieldCosts(explanation, 1), [
+      { path: "all.genericResource.tl", cost: 100 },
+    ]);
   });
 });
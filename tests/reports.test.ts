@@ -0,0 +1,94 @@
+import assert from "assert";
+import mocha from "mocha";
+
+import type { AnalysisResult } from "../src/analysis";
+import { jsonReport, junitReport, markdownReport } from "../src/reports";
+
+assert(mocha);
+
+const shape = { depth: 2, aliases: 0, rootFields: 1 };
+const breakdown = { cost: 61, operations: [], shape };
+const result: AnalysisResult = {
+  threshold: 50,
+  costs: [
+    {
+      file: "client/items.graphql",
+      operationName: "cheapItems",
+      cost: 3,
+      breakdown: { cost: 3, operations: [], shape },
+      overThreshold: false,
+    },
+    {
+      file: "client/items.graphql",
+      operationName: "expensiveItems",
+      cost: 61,
+      breakdown,
+      overThreshold: true,
+    },
+  ],
+  errors: [
+    {
+      file: "client/invalid.graphql",
+      operationName: undefined,
+      errors: ['Cannot query field "unknown" on type "Item".'],
+    },
+  ],
+};
+
+describe("reports", () => {
+  it("reports as JSON", () => {
+    const report = JSON.parse(jsonReport(result));
+    assert.deepStrictEqual(report.threshold, 50);
+    assert.deepStrictEqual(report.passed, false);
+    assert.deepStrictEqual(report.operations[1], {
+      operationName: "expensiveItems",
+      file: "client/items.graphql",
+      cost: 61,
+      overThreshold: true,
+      breakdown,
+    });
+    assert.deepStrictEqual(report.errors, [
+      {
+        operationName: null,
+        file: "client/invalid.graphql",
+        errors: ['Cannot query field "unknown" on type "Item".'],
+      },
+    ]);
+  });
+
+  it("reports as Markdown", () => {
+    assert.deepStrictEqual(
+      markdownReport(result),
+      [
+        "1 of 3 operations over the cost threshold of 50, 1 could not be costed.",
+        "",
+        "| Operation | File | Cost | Status |",
+        "| --- | --- | ---: | --- |",
+        '| <anonymous> | `client/invalid.graphql` |  | error: Cannot query field "unknown" on type "Item". |',
+        "| expensiveItems | `client/items.graphql` | 61 | over threshold |",
+        "| cheapItems | `client/items.graphql` | 3 | ok |",
+      ].join("\n")
+    );
+  });
+
+  it("reports as JUnit XML", () => {
+    assert.deepStrictEqual(
+      junitReport(result),
+      [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<testsuites name="graphql-query-cost" tests="3" failures="1" errors="1">`,
+        `  <testsuite name="graphql-query-cost" tests="3" failures="1" errors="1">`,
+        `    <testcase classname="client/items.graphql" name="cheapItems"/>`,
+        `    <testcase classname="client/items.graphql" name="expensiveItems">`,
+        `      <failure type="QUERY_COST_TOO_HIGH" message="Cost 61 is over the threshold of 50"/>`,
+        `    </testcase>`,
+        `    <testcase classname="client/invalid.graphql" name="&lt;anonymous&gt;">`,
+        `      <error message="Cannot query field &quot;unknown&quot; on type &quot;Item&quot;."/>`,
+        `    </testcase>`,
+        `  </testsuite>`,
+        `</testsuites>`,
+        "",
+      ].join("\n")
+    );
+  });
+});